@@ -20,6 +20,39 @@ export const API_CONFIG = {
   IMAGE_PIXEL_RATIO: 2, // Reduced from 3 to 2 for better performance (still high quality)
 } as const;
 
+// Thread rendering configuration
+export const THREAD_CONFIG = {
+  DEFAULT_DEPTH: 3,
+  MAX_DEPTH: 10, // Upper bound for both ancestors and self-replies
+} as const;
+
+// Article mode configuration
+export const ARTICLE_CONFIG = {
+  DEFAULT_PARAGRAPHS: 3,
+  WORDS_PER_MINUTE: 200,
+  CJK_CHARS_PER_MINUTE: 400, // CJK text has no word separators
+} as const;
+
+// Reaction strip configuration (Misskey family, Akkoma)
+export const REACTION_CONFIG = {
+  MAX_DISPLAYED: 8, // Only the most used reactions are shown and have their emoji images fetched
+} as const;
+
+// Edit history configuration
+export const HISTORY_CONFIG = {
+  MAX_DIFFS: 4, // Only the latest edits are diffed to keep the image compact
+} as const;
+
+// OAuth login configuration (Mastodon-API instances)
+export const OAUTH_CONFIG = {
+  CLIENT_NAME: 'TootPic',
+  WEBSITE: 'https://github.com/Eyozy/tootpic',
+  SCOPES: 'read', // Read-only; granular scopes aren't supported by every Mastodon-API server
+  SESSION_STORAGE_KEY: 'tootpic-oauth-session',
+  APPS_STORAGE_KEY: 'tootpic-oauth-apps',
+  PENDING_STORAGE_KEY: 'tootpic-oauth-pending', // sessionStorage, lives only until the redirect back
+} as const;
+
 // Image generation configuration
 export const IMAGE_CONFIG = {
     MAX_WIDTH: 670,
@@ -44,23 +77,57 @@ export const DOM_ELEMENT_IDS = {
     STYLE_A_CONTAINER: 'style-a-container',
     CLEAR_URL_BTN: 'clear-url-btn',
     USE_ORIGINAL_POST_DATA: 'use-original-post-data',
+    THREAD_MODE_TOGGLE: 'thread-mode-toggle',
+    THREAD_OPTIONS_CONTAINER: 'thread-options-container',
+    THREAD_DEPTH: 'thread-depth',
+    THREAD_SELF_REPLIES_TOGGLE: 'thread-self-replies-toggle',
+    ARTICLE_PARAGRAPHS: 'article-paragraphs',
+    EDIT_HISTORY_TOGGLE: 'edit-history-toggle',
+    RESOLVE_INSTANCE: 'resolve-instance',
+    RESOLVE_TOKEN: 'resolve-token',
+    TRANSLATION_PROVIDER: 'translation-provider',
+    TRANSLATION_OPTIONS: 'translation-options',
+    TRANSLATION_TARGET: 'translation-target',
+    TRANSLATION_MODE: 'translation-mode',
+    LIBRETRANSLATE_OPTIONS: 'libretranslate-options',
+    LIBRETRANSLATE_URL: 'libretranslate-url',
+    LIBRETRANSLATE_KEY: 'libretranslate-key',
+    OAUTH_LOGGED_OUT: 'oauth-logged-out',
+    OAUTH_LOGGED_IN: 'oauth-logged-in',
+    OAUTH_INSTANCE: 'oauth-instance',
+    OAUTH_LOGIN_BTN: 'oauth-login-btn',
+    OAUTH_LOGOUT_BTN: 'oauth-logout-btn',
+    OAUTH_ACCOUNT: 'oauth-account',
     INSTANCE_TOGGLE_CONTAINER: 'instance-toggle-container',
     TEMPLATE_TOGGLE: 'template-toggle',
     OPTIONS_TOGGLE: 'options-toggle',
     OPTIONS_CONTENT: 'options-content',
     OPTIONS_ICON: 'options-icon',
     PREVIEW_STATUS: 'preview-status',
+    REBLOG_HEADER: 'reblog-header',
+    REBLOG_HEADER_TEXT: 'reblog-header-text',
+    REPLY_CONTEXT: 'reply-context',
+    REPLY_CONTEXT_TEXT: 'reply-context-text',
+    POST_TITLE_BLOCK: 'post-title-block',
+    THREAD_ANCESTORS: 'thread-ancestors',
+    QUOTE_CONTAINER: 'quote-container',
+    LINK_CARD_CONTAINER: 'link-card-container',
+    THREAD_REPLIES: 'thread-replies',
+    EDIT_HISTORY: 'edit-history',
     AVATAR_CONTAINER: 'style-a-avatar-container',
     DISPLAY_NAME: 'style-a-display-name',
     USERNAME: 'style-a-username',
     CONTENT: 'style-a-content',
+    TRANSLATION_ATTRIBUTION: 'translation-attribution',
     ATTACHMENT: 'style-a-attachment',
     BOTTOM_SECTION: 'bottom-section',
     TIMESTAMP: 'style-a-timestamp',
+    META: 'style-a-meta',
     STATS: 'style-a-stats',
     REPLIES: 'style-a-replies',
     BOOSTS: 'style-a-boosts',
     FAVS: 'style-a-favs',
+    REACTIONS: 'style-a-reactions',
     CURRENT_TEMPLATE_NAME: 'current-template-name',
     CONTENT_WARNING_BANNER: 'content-warning-banner',
     CONTENT_WARNING_TEXT: 'content-warning-text',
@@ -0,0 +1,47 @@
+import type { APIRoute } from 'astro';
+import { getInstanceActor } from '../../utils/httpSignature';
+
+export const prerender = false;
+
+function jsonError(error: string, errorCode: string, status: number): Response {
+  return new Response(JSON.stringify({ error, errorCode }), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * WebFinger for the instance actor (`acct:<host>@<host>`)
+ * Mastodon looks up the owner of a signature's keyId through WebFinger before it trusts the key
+ */
+export const GET: APIRoute = async ({ url }) => {
+  const actor = getInstanceActor();
+  if (!actor) {
+    return jsonError('Instance actor is not configured', 'ACTOR_NOT_CONFIGURED', 404);
+  }
+
+  const resource = url.searchParams.get('resource');
+  if (!resource) {
+    return jsonError('Missing resource parameter', 'MISSING_RESOURCE', 400);
+  }
+
+  const actorUrl = new URL(actor.actorUrl);
+  const subject = `acct:${actorUrl.hostname}@${actorUrl.host}`;
+  if (resource.toLowerCase() !== subject.toLowerCase() && resource !== actor.actorUrl) {
+    return jsonError('Unknown resource', 'UNKNOWN_RESOURCE', 404);
+  }
+
+  return new Response(
+    JSON.stringify({
+      subject,
+      aliases: [actor.actorUrl],
+      links: [
+        { rel: 'self', type: 'application/activity+json', href: actor.actorUrl },
+      ],
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/jrd+json; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    }
+  );
+};
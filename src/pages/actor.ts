@@ -0,0 +1,47 @@
+import type { APIRoute } from 'astro';
+import { getInstanceActor } from '../utils/httpSignature';
+
+// The key can change with the environment, so the actor is rendered per request
+export const prerender = false;
+
+/**
+ * Instance actor whose key signs TootPic's ActivityPub requests
+ * Remote servers fetch it (via the keyId) to verify the signatures
+ */
+export const GET: APIRoute = async () => {
+  const actor = getInstanceActor();
+
+  if (!actor) {
+    return new Response(
+      JSON.stringify({ error: 'Instance actor is not configured', errorCode: 'ACTOR_NOT_CONFIGURED' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const origin = new URL(actor.actorUrl).origin;
+
+  return new Response(
+    JSON.stringify({
+      '@context': ['https://www.w3.org/ns/activitystreams', 'https://w3id.org/security/v1'],
+      id: actor.actorUrl,
+      type: 'Application',
+      preferredUsername: new URL(actor.actorUrl).hostname,
+      name: 'TootPic',
+      summary: 'Turns Fediverse posts into shareable images. This actor only fetches public posts and does not follow anyone.',
+      url: origin,
+      inbox: `${actor.actorUrl}/inbox`,
+      manuallyApprovesFollowers: true,
+      publicKey: {
+        id: actor.keyId,
+        owner: actor.actorUrl,
+        publicKeyPem: actor.publicKeyPem,
+      },
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/activity+json; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    }
+  );
+};
@@ -0,0 +1,11 @@
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+/**
+ * Inbox of the instance actor
+ * The actor never follows or posts, so deliveries are acknowledged and dropped
+ */
+export const POST: APIRoute = async () => {
+  return new Response(null, { status: 202 });
+};
@@ -1,5 +1,10 @@
 import type { APIRoute } from 'astro';
 import { FediverseClient } from '../../utils/fediverseClient';
+import type { AuthOptions, ResolveViaOptions, ThreadOptions } from '../../utils/fediverseClient';
+import type { FediversePost } from '../../types/activitypub';
+import { normalizePostUrl } from '../../utils/urlNormalizer';
+import { isInternalHost } from '../../utils/hostValidator';
+import { REACTION_CONFIG, THREAD_CONFIG } from '../../constants';
 
 /**
  * Rate limiter using sliding window algorithm with automatic cleanup
@@ -78,6 +83,8 @@ class RateLimiter {
 
 const rateLimiter = new RateLimiter(50, 60 * 60 * 1000); // 50 requests per hour
 
+const MAX_STREAMED_IMAGES = 30; // Matches the URL limit of /api/stream-images
+
 function getClientIP(request: Request): string {
   // Priority: X-Forwarded-For > X-Real-IP > CF-Connecting-IP
   const forwarded = request.headers.get('x-forwarded-for');
@@ -89,6 +96,126 @@ function getClientIP(request: Request): string {
   return request.headers.get('cf-connecting-ip') || 'unknown';
 }
 
+/**
+ * Parse an instance given by the user to its host name (scheme and path are ignored); internal hosts are rejected
+ */
+function parseInstanceHost(instance: unknown): string | undefined {
+  if (typeof instance !== 'string' || !instance.trim()) {
+    return undefined;
+  }
+
+  let instanceUrl: URL;
+  try {
+    instanceUrl = new URL(/^https?:\/\//i.test(instance.trim()) ? instance.trim() : `https://${instance.trim()}`);
+  } catch {
+    return undefined;
+  }
+
+  return isInternalHost(instanceUrl.hostname) ? undefined : instanceUrl.host.toLowerCase();
+}
+
+/**
+ * Accept only bearer tokens made of the characters RFC 6750 allows
+ */
+function parseAccessToken(token: unknown): string | undefined {
+  return typeof token === 'string' && /^[\w.~+\/-]+=*$/.test(token.trim()) ? token.trim() : undefined;
+}
+
+/**
+ * Validate the "resolve via instance" setting: an instance and an optional token
+ */
+function parseResolveVia(param: unknown): ResolveViaOptions | undefined {
+  if (!param || typeof param !== 'object') {
+    return undefined;
+  }
+
+  const { instance, token } = param as Record<string, unknown>;
+  const host = parseInstanceHost(instance);
+  return host ? { instance: host, token: parseAccessToken(token) } : undefined;
+}
+
+/**
+ * Validate the login of the user: the instance that issued the token and the token itself
+ */
+function parseAuth(param: unknown): AuthOptions | undefined {
+  if (!param || typeof param !== 'object') {
+    return undefined;
+  }
+
+  const { instance, token } = param as Record<string, unknown>;
+  const host = parseInstanceHost(instance);
+  const accessToken = parseAccessToken(token);
+  return host && accessToken ? { instance: host, token: accessToken } : undefined;
+}
+
+/**
+ * Collect image URLs (attachments, avatar and emojis) needed to render a post
+ */
+function collectPostImageUrls(post: FediversePost): string[] {
+  return [
+    // Post attachments - handle different types
+  ...post.attachments.flatMap(att => {
+      const urls = [];
+
+      // For images, always add the URL
+      if (att.type === 'image') {
+        urls.push(att.url);
+      }
+      // For videos and GIFs, prefer preview URL if available
+      else if (att.type === 'video' || att.type === 'gifv') {
+        if (att.previewUrl) {
+          urls.push(att.previewUrl);
+        }
+        // If no preview URL, don't add video URL to imageUrls
+        // Videos can't be rendered as images
+      }
+      // For audio, the cover art (if any)
+      else if (att.type === 'audio') {
+        if (att.previewUrl) {
+          urls.push(att.previewUrl);
+        }
+      }
+      // For document type, check if it's actually a video
+      else if (att.type === 'document') {
+        const url = att.url?.toLowerCase() || '';
+        if (url.match(/\.(mp4|webm|mov|avi|mkv|flv|wmv)$/)) {
+          // This is a video file
+          if (att.previewUrl) {
+            urls.push(att.previewUrl);
+          }
+        } else {
+          // Unknown document type, try to use URL if it looks like an image
+          if (url.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
+            urls.push(att.url);
+          }
+        }
+      }
+      // For other types, try to use them if they look like images
+      else if (att.url) {
+        const url = att.url.toLowerCase();
+        if (url.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
+          urls.push(att.url);
+        }
+      }
+
+      return urls;
+    }),
+    // User avatar (if available)
+    ...(post.account.avatar ? [post.account.avatar] : []),
+    // User emojis
+    ...post.account.emojis.map(emoji => emoji.url),
+    // Link preview card image
+    ...(post.card?.image ? [post.card.image] : []),
+    // Article hero image
+    ...(post.article?.heroImage ? [post.article.heroImage] : []),
+    // Book cover (BookWyrm)
+    ...(post.book?.cover ? [post.book.cover] : []),
+    // Video card thumbnail and channel avatar
+    ...(post.video?.thumbnail ? [post.video.thumbnail] : []),
+    ...(post.video?.channel?.avatar ? [post.video.channel.avatar] : []),
+  ];
+}
+
 // This must be set to false for POST requests to work correctly in production.
 export const prerender = false;
 
@@ -124,7 +251,9 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     const body = await request.json();
-    const { url } = body;
+    const { url: rawUrl, useOriginalPostData, thread: threadParam, history, resolveVia: resolveViaParam, auth: authParam } = body;
+    // Handles, ap:// links and share links become plain post URLs before validation
+    const url = typeof rawUrl === 'string' ? normalizePostUrl(rawUrl) : rawUrl;
 
     if (!url) {
       return new Response(
@@ -170,21 +299,7 @@ export const POST: APIRoute = async ({ request }) => {
       }
 
       // Block internal network addresses
-      const hostname = urlObj.hostname.toLowerCase();
-      const internalPatterns = [
-        /^localhost$/i,
-        /^127\./,
-        /^10\./,
-        /^192\.168\./,
-        /^172\.(1[6-9]|2[0-9]|3[01])\./,
-        /^169\.254\./,
-        /^0\./,
-        /^::1$/,
-        /^fc00:/,
-        /^fe80:/
-      ];
-
-      if (internalPatterns.some(pattern => pattern.test(hostname))) {
+      if (isInternalHost(urlObj.hostname)) {
         return new Response(
           JSON.stringify({ error: 'Internal network addresses not allowed', errorCode: 'INTERNAL_URL' }),
           { status: 400, headers: corsHeaders }
@@ -205,8 +320,24 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
+    // Thread mode is opt-in; clamp the depth to keep requests bounded
+    let threadOptions: ThreadOptions | undefined;
+    if (threadParam && typeof threadParam === 'object') {
+      const depth = Number.parseInt(threadParam.depth, 10);
+      threadOptions = {
+        depth: Math.min(Math.max(Number.isNaN(depth) ? THREAD_CONFIG.DEFAULT_DEPTH : depth, 1), THREAD_CONFIG.MAX_DEPTH),
+        includeSelfReplies: threadParam.includeSelfReplies === true,
+      };
+    }
+
     // Use the FediverseClient to fetch real data
-    const result = await FediverseClient.fetchPost(url);
+    const result = await FediverseClient.fetchPost(url, {
+      useOriginalPostData: useOriginalPostData !== false,
+      thread: threadOptions,
+      history: history === true,
+      resolveVia: parseResolveVia(resolveViaParam),
+      auth: parseAuth(authParam),
+    });
 
     if (!result.success) {
       return new Response(
@@ -215,6 +346,7 @@ export const POST: APIRoute = async ({ request }) => {
           errorCode: result.errorCode,
           suggestion: result.suggestion,
           platform: result.platform,
+          software: result.software,
         }),
         {
           status: 400,
@@ -226,69 +358,40 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
-    // Collect image URLs from the post data
-    const imageUrls = [
-      // Post attachments - handle different types
-      ...result.data!.attachments.flatMap(att => {
-        const urls = [];
-
-        // For images, always add the URL
-        if (att.type === 'image') {
-          urls.push(att.url);
-        }
-        // For videos and GIFs, prefer preview URL if available
-        else if (att.type === 'video' || att.type === 'gifv') {
-          if (att.previewUrl) {
-            urls.push(att.previewUrl);
-          }
-          // If no preview URL, don't add video URL to imageUrls
-          // Videos can't be rendered as images
-        }
-        // For document type, check if it's actually a video
-        else if (att.type === 'document') {
-          const url = att.url?.toLowerCase() || '';
-          if (url.match(/\.(mp4|webm|mov|avi|mkv|flv|wmv)$/)) {
-            // This is a video file
-            if (att.previewUrl) {
-              urls.push(att.previewUrl);
-            }
-          } else {
-            // Unknown document type, try to use URL if it looks like an image
-            if (url.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
-              urls.push(att.url);
-            }
-          }
-        }
-        // For other types, try to use them if they look like images
-        else if (att.url) {
-          const url = att.url.toLowerCase();
-          if (url.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
-            urls.push(att.url);
-          }
-        }
-
-        return urls;
-      }),
-      // User avatar (if available)
-      ...(result.data!.account.avatar ? [result.data!.account.avatar] : []),
-      // User emojis
-      ...result.data!.account.emojis.map(emoji => emoji.url)
-    ].filter(url => url && typeof url === 'string' && url.trim() !== '');
-
-    const urlParts = new URL(url);
-    const fetchedInstance = urlParts.hostname;
+    // Boost wrappers are rendered as a header above the original post
+    const displayPost = result.data!.reblog || result.data!;
+
+    // Collect image URLs from the post data (deduplicated, focus post first)
+    const thread = result.thread;
+    const imageUrls = [...new Set([
+      ...collectPostImageUrls(displayPost),
+      // Custom emojis of the reaction strip
+      ...(displayPost.reactions || []).slice(0, REACTION_CONFIG.MAX_DISPLAYED).flatMap(reaction => (reaction.url ? [reaction.url] : [])),
+      // Quoted post rendered as a nested card
+      ...(displayPost.quote ? collectPostImageUrls(displayPost.quote) : []),
+      // Booster emojis for the "boosted by" header
+      ...(result.data!.reblog ? result.data!.account.emojis.map(emoji => emoji.url) : []),
+      // Thread posts (ancestors and self-replies)
+      ...(thread ? [...thread.ancestors, ...thread.selfReplies].flatMap(collectPostImageUrls) : []),
+    ].filter(url => url && typeof url === 'string' && url.trim() !== ''))].slice(0, MAX_STREAMED_IMAGES);
+
+    // Post IDs and local accts belong to the instance that served the post, which differs from the URL's host after resolveVia
+    const fetchedInstance = result.instance || new URL(url).hostname;
 
     // Fix acct field if it's empty
-    if (result.data && result.data.account && !result.data.account.acct) {
-      const username = result.data.account.username || result.data.account.displayName;
-      const domain = new URL(result.data.account.url || '').hostname || fetchedInstance;
-      result.data.account.acct = `${username}@${domain}`;
+    if (displayPost.account && !displayPost.account.acct) {
+      const username = displayPost.account.username || displayPost.account.displayName;
+      const domain = new URL(displayPost.account.url || '').hostname || fetchedInstance;
+      displayPost.account.acct = `${username}@${domain}`;
     }
 
     return new Response(
       JSON.stringify({
         postData: result.data,
+        thread: result.thread,
+        history: result.history,
         platform: result.platform,
+        software: result.software,
         imageUrls: imageUrls,
         imageMap: {}, // Let the stream-images API handle image processing
         fetchedInstance: fetchedInstance,
@@ -86,6 +86,9 @@ export interface FediversePoll {
   own_votes?: number[];
 }
 
+// Mastodon's four audiences; other platforms' scopes are mapped onto them
+export type FediverseVisibility = 'public' | 'unlisted' | 'private' | 'direct';
+
 export interface FediversePost {
   id: string;
   content: string;
@@ -101,9 +104,37 @@ export interface FediversePost {
   url: string;
   platform: string;
   inReplyTo?: string;
+  inReplyToAccount?: string; // acct of the parent post's author, relative to the instance like account.acct
   language?: string;
+  visibility?: FediverseVisibility; // Audience the post was addressed to
+  application?: string; // Client the post was written with
   tags: FediverseTag[];
   poll?: FediversePoll;
+  reblog?: FediversePost; // Original post when this post is a boost/renote
+  quote?: FediversePost; // Post quoted by this post
+  card?: FediverseLinkCard; // Preview of the first link in the post
+  reactions?: FediverseReaction[]; // Emoji reactions (Misskey family, Akkoma), most used first
+  localOnly?: boolean; // Not federated beyond the author's instance
+  title?: string; // Post title (Lemmy posts, ActivityPub Pages)
+  parentTitle?: string; // Title of the post a Lemmy comment belongs to
+  community?: FediverseCommunity; // Group the post was made in
+  votes?: FediverseVotes; // Link aggregator score
+  linkUrl?: string; // Target of a link post
+  article?: FediverseArticle; // Set for long-form posts, which are rendered in article mode
+  video?: FediverseVideo; // Set for video platforms (PeerTube), which get a video card
+  event?: FediverseEvent; // Set for ActivityPub Events (Mobilizon, Gancio), which get an event card
+  book?: FediverseBook; // Book a BookWyrm review, comment, quotation or reading status is about
+}
+
+export interface FediverseThread {
+  ancestors: FediversePost[]; // Oldest first, ending with the direct parent of the focus post
+  selfReplies: FediversePost[]; // The author's own replies continuing below the focus post
+}
+
+export interface FediverseRevision {
+  content: string; // Sanitized HTML of this version
+  spoilerText: string;
+  createdAt: string; // When this version was published; the first one is the original post
 }
 
 export interface FediverseAccount {
@@ -125,6 +156,9 @@ export interface FediverseAttachment {
   width?: number;
   height?: number;
   blurhash?: string;
+  duration?: number; // Seconds, audio and video
+  title?: string; // Audio track metadata
+  artist?: string;
 }
 
 export interface FediverseEmoji {
@@ -133,17 +167,101 @@ export interface FediverseEmoji {
   staticUrl?: string;
 }
 
+export interface FediverseArticle {
+  summary?: string; // Plain-text excerpt
+  heroImage?: string;
+  readingTime: number; // Estimated minutes for the whole body
+}
+
+export interface FediverseVideo {
+  title: string;
+  thumbnail?: string;
+  duration?: number; // Seconds
+  views?: number;
+  likes?: number;
+  dislikes?: number;
+  licence?: string;
+  channel?: FediverseVideoChannel;
+}
+
+export interface FediverseVideoChannel {
+  name: string; // name@domain format
+  displayName: string;
+  avatar?: string;
+  url: string;
+}
+
+export interface FediverseEvent {
+  startTime: string;
+  endTime?: string;
+  location?: FediverseEventLocation;
+  onlineUrl?: string; // Link to join an online event
+  participants?: number;
+  maxParticipants?: number;
+  joinMode?: string; // Mobilizon: free, restricted, invite or external
+}
+
+export interface FediverseBook {
+  kind: 'review' | 'comment' | 'quotation' | 'status';
+  title: string;
+  subtitle?: string;
+  authors: string[];
+  cover?: string;
+  url: string;
+  rating?: number; // 0.5 to 5 stars
+  quote?: string; // HTML of the quoted passage (quotations)
+  position?: string; // Where the quote is from, e.g. "p. 12" or "45%"
+}
+
+export interface FediverseEventLocation {
+  name?: string;
+  address?: string; // Single-line postal address
+}
+
+export interface FediverseCommunity {
+  name: string; // name@domain format
+  title: string;
+  url: string;
+}
+
+export interface FediverseVotes {
+  score: number;
+  upvotes?: number;
+  downvotes?: number;
+}
+
+export interface FediverseReaction {
+  name: string; // Unicode emoji or :shortcode: for custom emojis
+  count: number;
+  url?: string; // Image of a custom emoji reaction
+}
+
+export interface FediverseLinkCard {
+  url: string;
+  title: string;
+  description?: string;
+  image?: string;
+  providerName?: string;
+}
+
 export interface FediverseTag {
   name: string;
   url: string;
   type: 'hashtag' | 'mention';
 }
 
+// Server software reported by NodeInfo
+export interface FediverseSoftware {
+  name: string; // Lowercase NodeInfo software.name, e.g. "mastodon"
+  version?: string;
+}
+
 // Platform detection and URL patterns
 export interface PlatformConfig {
   name: string;
-  urlPatterns: RegExp[];
-  apiEndpoints: {
+  urlPatterns: RegExp[]; // Only a hint; NodeInfo detection takes precedence
+  software?: string[]; // NodeInfo software names served by this platform's API
+  apiEndpoints?: { // Missing for platforms that are only read through ActivityPub
     status: {
       path: string;
       method: 'GET' | 'POST';
@@ -161,6 +279,30 @@ export interface PlatformConfig {
 }
 
 export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
+  gotosocial: {
+    name: 'GoToSocial',
+    urlPatterns: [
+      // Status IDs are ULIDs, which tells them apart from Mastodon's numeric IDs
+      /^https?:\/\/([^\/]+)\/@([^\/]+)\/statuses\/([0-9A-Z]{26})(?:\/.*)?$/,
+      /^https?:\/\/([^\/]+)\/users\/([^\/]+)\/statuses\/([0-9A-Z]{26})(?:\/.*)?$/,
+    ],
+    software: ['gotosocial'],
+    apiEndpoints: {
+      status: {
+        path: '/api/v1/statuses/{id}',
+        method: 'GET'
+      },
+      actor: {
+        path: '/api/v1/accounts/{id}',
+        method: 'GET'
+      },
+    },
+    supports: {
+      sensitive: true,
+      contentWarnings: true,
+      customEmojis: true,
+    },
+  },
   mastodon: {
     name: 'Mastodon',
     urlPatterns: [
@@ -169,6 +311,7 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
       /^https?:\/\/([^\/]+)\/@([^\/]+)\/statuses\/([a-zA-Z0-9-]+)(?:\/.*)?$/, // Mastodon 4.x style
       /^https?:\/\/([^\/]+)\/users\/([^\/]+)\/statuses\/([a-zA-Z0-9-]+)(?:\/.*)?$/, // Mastodon 4.x users
     ],
+    software: ['mastodon', 'hometown'],
     apiEndpoints: {
       status: {
         path: '/api/v1/statuses/{id}',
@@ -195,6 +338,7 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
       /^https?:\/\/([^\/]+)\/i\/web\/post\/(\d+)(?:\/.*)?$/,
       /^https?:\/\/([^\/]+)\/users\/([^\/]+)\/statuses\/(\d+)(?:\/.*)?$/,
     ],
+    software: ['pixelfed'],
     apiEndpoints: {
       status: {
         path: '/api/v2/statuses/{id}',
@@ -223,6 +367,7 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
       // Alternative /video/watch format
       /^https?:\/\/([^\/]+)\/video\/watch\/([a-zA-Z0-9-]+)(?:\/.*)?$/,
     ],
+    software: ['peertube'],
     apiEndpoints: {
       status: {
         path: '/api/v1/videos/{id}',
@@ -245,6 +390,31 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
       /^https?:\/\/([^\/]+)\/objects\/([a-f0-9-]+)(?:\/.*)?$/,
       /^https?:\/\/([^\/]+)\/notice\/([a-zA-Z0-9]+)(?:\/.*)?$/,
     ],
+    software: ['pleroma'],
+    apiEndpoints: {
+      status: {
+        path: '/api/v1/statuses/{id}',
+        method: 'GET'
+      },
+      actor: {
+        path: '/api/v1/accounts/{id}',
+        method: 'GET'
+      },
+    },
+    supports: {
+      sensitive: true,
+      contentWarnings: true,
+      customEmojis: true,
+    },
+  },
+  akkoma: {
+    name: 'Akkoma',
+    // Same URL shapes as Pleroma; told apart via NodeInfo
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/objects\/([a-f0-9-]+)(?:\/.*)?$/,
+      /^https?:\/\/([^\/]+)\/notice\/([a-zA-Z0-9]+)(?:\/.*)?$/,
+    ],
+    software: ['akkoma'],
     apiEndpoints: {
       status: {
         path: '/api/v1/statuses/{id}',
@@ -266,6 +436,7 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
     urlPatterns: [
       /^https?:\/\/([^\/]+)\/notes\/([a-zA-Z0-9]+)(?:\/.*)?$/,
     ],
+    software: ['misskey', 'foundkey', 'cherrypick'],
     apiEndpoints: {
       status: {
         path: '/api/notes/show',
@@ -282,6 +453,227 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
       customEmojis: true,
     },
   },
+  sharkey: {
+    name: 'Sharkey',
+    // Same URL shapes as Misskey; told apart via NodeInfo
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/notes\/([a-zA-Z0-9]+)(?:\/.*)?$/,
+    ],
+    software: ['sharkey'],
+    apiEndpoints: {
+      status: {
+        path: '/api/notes/show',
+        method: 'POST'
+      },
+      actor: {
+        path: '/api/users/show',
+        method: 'POST'
+      },
+    },
+    supports: {
+      sensitive: true,
+      contentWarnings: true,
+      customEmojis: true,
+    },
+  },
+  firefish: {
+    name: 'Firefish',
+    // Same URL shapes as Misskey; told apart via NodeInfo
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/notes\/([a-zA-Z0-9]+)(?:\/.*)?$/,
+    ],
+    software: ['firefish', 'calckey'],
+    apiEndpoints: {
+      status: {
+        path: '/api/notes/show',
+        method: 'POST'
+      },
+      actor: {
+        path: '/api/users/show',
+        method: 'POST'
+      },
+    },
+    supports: {
+      sensitive: true,
+      contentWarnings: true,
+      customEmojis: true,
+    },
+  },
+  iceshrimp: {
+    name: 'Iceshrimp',
+    // Same URL shapes as Misskey; told apart via NodeInfo
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/notes\/([a-zA-Z0-9]+)(?:\/.*)?$/,
+    ],
+    software: ['iceshrimp'],
+    apiEndpoints: {
+      status: {
+        path: '/api/notes/show',
+        method: 'POST'
+      },
+      actor: {
+        path: '/api/users/show',
+        method: 'POST'
+      },
+    },
+    supports: {
+      sensitive: true,
+      contentWarnings: true,
+      customEmojis: true,
+    },
+  },
+  friendica: {
+    name: 'Friendica',
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/display\/([0-9a-zA-Z-]+)(?:[\/?#].*)?$/,
+    ],
+    software: ['friendica'],
+    apiEndpoints: {
+      // The Mastodon API only knows numeric IDs, so the /display/ URL is resolved through search
+      status: {
+        path: '/api/v2/search?type=statuses&resolve=true&limit=1&q={id}',
+        method: 'GET'
+      },
+      actor: {
+        path: '/api/v1/accounts/{id}',
+        method: 'GET'
+      },
+    },
+    supports: {
+      sensitive: true,
+      contentWarnings: true,
+      customEmojis: true,
+    },
+  },
+  hubzilla: {
+    name: 'Hubzilla',
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/item\/([0-9a-f-]+)(?:[\/?#].*)?$/,
+    ],
+    software: ['hubzilla', 'streams'],
+    supports: {
+      sensitive: true,
+      contentWarnings: true,
+      customEmojis: false,
+    },
+  },
+  lemmy: {
+    name: 'Lemmy',
+    urlPatterns: [
+      // Lemmy and PieFed posts and comments
+      /^https?:\/\/([^\/]+)\/post\/(\d+)(?:\/.*)?$/,
+      /^https?:\/\/([^\/]+)\/comment\/(\d+)(?:\/.*)?$/,
+      // Mbin threads and their comments
+      /^https?:\/\/([^\/]+)\/m\/([^\/]+)\/t\/\d+(?:\/[^\/]+)?\/comment\/(\d+)(?:\/.*)?$/,
+      /^https?:\/\/([^\/]+)\/m\/([^\/]+)\/t\/(\d+)(?:\/.*)?$/,
+    ],
+    software: ['lemmy', 'piefed', 'mbin', 'kbin'],
+    apiEndpoints: {
+      status: {
+        path: '/api/v3/post?id={id}',
+        method: 'GET'
+      },
+      actor: {
+        path: '/api/v3/user?person_id={id}',
+        method: 'GET'
+      },
+    },
+    supports: {
+      sensitive: true,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
+  funkwhale: {
+    name: 'Funkwhale',
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/library\/tracks\/(\d+)(?:\/.*)?$/,
+    ],
+    software: ['funkwhale'],
+    apiEndpoints: {
+      status: {
+        path: '/api/v1/tracks/{id}/',
+        method: 'GET'
+      },
+      actor: {
+        path: '/api/v1/federation/actors/{id}/',
+        method: 'GET'
+      },
+    },
+    supports: {
+      sensitive: false,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
+  writefreely: {
+    name: 'WriteFreely',
+    urlPatterns: [], // Post URLs are free-form; blogs are recognized via NodeInfo
+    software: ['writefreely'],
+    supports: {
+      sensitive: false,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
+  plume: {
+    name: 'Plume',
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/~\/([^\/]+)\/([^\/?#]+)\/?$/,
+    ],
+    software: ['plume'],
+    supports: {
+      sensitive: false,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
+  ghost: {
+    name: 'Ghost',
+    urlPatterns: [], // Post URLs are free-form; blogs are recognized via NodeInfo
+    software: ['ghost'],
+    supports: {
+      sensitive: false,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
+  bookwyrm: {
+    name: 'BookWyrm',
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/user\/([^\/]+)\/(?:review|comment|quotation|status|generatednote)\/(\d+)(?:[\/?#].*)?$/,
+    ],
+    software: ['bookwyrm'],
+    supports: {
+      sensitive: false,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
+  mobilizon: {
+    name: 'Mobilizon',
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/events\/([0-9a-f-]{36})(?:\/.*)?$/,
+    ],
+    software: ['mobilizon'],
+    supports: {
+      sensitive: false,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
+  gancio: {
+    name: 'Gancio',
+    urlPatterns: [
+      /^https?:\/\/([^\/]+)\/event\/([^\/?#]+)(?:[\/?#].*)?$/,
+    ],
+    software: ['gancio'],
+    supports: {
+      sensitive: false,
+      contentWarnings: false,
+      customEmojis: false,
+    },
+  },
   ech0: {
     name: 'Ech0',
     urlPatterns: [
@@ -294,6 +686,7 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
       /^https?:\/\/([^\/]+)\/posts\/([a-zA-Z0-9_-]+)(?:\/.*)?$/,
       /^https?:\/\/([^\/]+)\/notes\/([a-zA-Z0-9_-]+)(?:\/.*)?$/,
     ],
+    software: ['ech0'],
     apiEndpoints: {
       status: {
         path: '/api/objects/{id}',
@@ -315,16 +708,6 @@ export const SUPPORTED_PLATFORMS: Record<string, PlatformConfig> = {
     urlPatterns: [
       /^https?:\/\/([^\/]+)\/(@[^\/]+|users\/[^\/]+|objects\/[^\/]+|notice\/[^\/]+|notes\/[^\/]+|statuses\/[^\/]+|p\/[^\/]+\/\d+|videos\/watch\/[^\/]+|posts\/[^\/]+)(?:\/.*)?$/,
     ],
-    apiEndpoints: {
-      status: {
-        path: '/.well-known/webfinger',
-        method: 'GET'
-      },
-      actor: {
-        path: '/.well-known/webfinger',
-        method: 'GET'
-      },
-    },
     supports: {
       sensitive: true,
       contentWarnings: false,
@@ -0,0 +1,639 @@
+/**
+ * Zod schemas for upstream platform responses
+ * Only the fields the converters rely on are described; everything else passes through untouched
+ */
+
+import { z } from 'zod';
+
+// Some servers serialize IDs as numbers
+const IdSchema = z.union([z.string(), z.number()]).transform(String);
+
+// ActivityPub properties may hold a single value or an array of values
+function oneOrMany<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    value => (value == null ? [] : Array.isArray(value) ? value : [value]),
+    z.array(schema)
+  );
+}
+
+// --- Mastodon API (also served by Pleroma/Akkoma and Pixelfed) ---
+
+export const MastodonEmojiSchema = z.object({
+  shortcode: z.string(),
+  url: z.string(),
+  static_url: z.string().nullish(),
+}).passthrough();
+
+export const MastodonAccountSchema = z.object({
+  id: IdSchema,
+  username: z.string(),
+  acct: z.string(),
+  display_name: z.string().nullish(),
+  avatar: z.string().nullish(),
+  avatar_static: z.string().nullish(),
+  url: z.string().nullish(),
+  emojis: z.array(MastodonEmojiSchema).nullish(),
+}).passthrough();
+
+export const MastodonMediaAttachmentSchema = z.object({
+  type: z.string(),
+  url: z.string().nullish(),
+  preview_url: z.string().nullish(),
+  preview_image_url: z.string().nullish(),
+  description: z.string().nullish(),
+  blurhash: z.string().nullish(),
+  meta: z.object({
+    original: z.object({
+      width: z.number().nullish(),
+      height: z.number().nullish(),
+      duration: z.number().nullish(), // Seconds, audio and video
+    }).passthrough().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const MastodonPollSchema = z.object({
+  id: IdSchema,
+  options: z.array(z.object({
+    title: z.string(),
+    votes_count: z.number().nullish(),
+  }).passthrough()),
+  expired: z.boolean().nullish(),
+  expires_at: z.string().nullish(),
+  multiple: z.boolean().nullish(),
+  votes_count: z.number().nullish(),
+  voters_count: z.number().nullish(),
+  voted: z.boolean().nullish(),
+  own_votes: z.array(z.number()).nullish(),
+}).passthrough();
+
+export const MastodonCardSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  description: z.string().nullish(),
+  image: z.string().nullish(),
+  provider_name: z.string().nullish(),
+}).passthrough();
+
+export const MastodonStatusSchema = z.object({
+  id: IdSchema,
+  content: z.string().nullish(),
+  created_at: z.string(),
+  edited_at: z.string().nullish(),
+  account: MastodonAccountSchema,
+  media_attachments: z.array(MastodonMediaAttachmentSchema).nullish(),
+  emojis: z.array(MastodonEmojiSchema).nullish(),
+  replies_count: z.number().nullish(),
+  reblogs_count: z.number().nullish(),
+  favourites_count: z.number().nullish(),
+  sensitive: z.boolean().nullish(),
+  spoiler_text: z.string().nullish(),
+  url: z.string().nullish(),
+  uri: z.string().nullish(),
+  in_reply_to_id: IdSchema.nullish(),
+  in_reply_to_account_id: IdSchema.nullish(),
+  mentions: z.array(z.object({
+    id: IdSchema,
+    acct: z.string(),
+  }).passthrough()).nullish(),
+  language: z.string().nullish(),
+  visibility: z.string().nullish(),
+  // glitch-soc and GoToSocial
+  local_only: z.boolean().nullish(),
+  application: z.object({
+    name: z.string(),
+    website: z.string().nullish(),
+  }).passthrough().nullish(),
+  tags: z.array(z.object({
+    name: z.string(),
+    url: z.string(),
+  }).passthrough()).nullish(),
+  poll: MastodonPollSchema.nullish(),
+  card: MastodonCardSchema.nullish(),
+  // Nested statuses are validated when they are converted
+  reblog: z.unknown().nullish(),
+  // Fedibird and Akkoma embed the quoted status; Mastodon 4.4+ wraps it in `quoted_status`,
+  // which is missing while the quote is pending, rejected or revoked
+  quote: z.union([
+    z.object({ id: IdSchema, account: z.unknown() }).passthrough(),
+    z.object({ state: z.string().nullish(), quoted_status: z.unknown().nullish() }).passthrough(),
+  ]).nullish(),
+  pleroma: z.object({
+    quote: z.unknown().nullish(),
+    in_reply_to_account_acct: z.string().nullish(),
+    emoji_reactions: z.array(z.object({
+      name: z.string(),
+      count: z.number(),
+      url: z.string().nullish(),
+    }).passthrough()).nullish(),
+  }).passthrough().nullish(),
+  // Friendica extension
+  friendica: z.object({
+    title: z.string().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export type MastodonStatus = z.infer<typeof MastodonStatusSchema>;
+
+// Entry of /api/v1/statuses/:id/history
+// Response of /api/v1/statuses/:id/context
+export const MastodonContextSchema = z.object({
+  ancestors: z.array(MastodonStatusSchema),
+  descendants: z.array(MastodonStatusSchema),
+}).passthrough();
+
+export const MastodonStatusEditSchema = z.object({
+  content: z.string().nullish(),
+  spoiler_text: z.string().nullish(),
+  created_at: z.string(),
+}).passthrough();
+
+// --- Misskey API ---
+
+export const MisskeyUserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  name: z.string().nullish(),
+  host: z.string().nullish(),
+  avatarUrl: z.string().nullish(),
+  url: z.string().nullish(),
+}).passthrough();
+
+export const MisskeyDriveFileSchema = z.object({
+  type: z.string(),
+  url: z.string(),
+  thumbnailUrl: z.string().nullish(),
+  comment: z.string().nullish(),
+  properties: z.object({
+    width: z.number().nullish(),
+    height: z.number().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const MisskeyNoteSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string().nullish(),
+  text: z.string().nullish(),
+  cw: z.string().nullish(),
+  user: MisskeyUserSchema,
+  userId: z.string().nullish(),
+  files: z.array(MisskeyDriveFileSchema).nullish(),
+  replyId: z.string().nullish(),
+  // The parent note (packed one level deep); only its author is used
+  reply: z.object({ user: MisskeyUserSchema }).passthrough().nullish(),
+  renoteId: z.string().nullish(),
+  // The renoted note is validated when it is converted
+  renote: z.unknown().nullish(),
+  repliesCount: z.number().nullish(),
+  renoteCount: z.number().nullish(),
+  tags: z.array(z.string()).nullish(),
+  url: z.string().nullish(),
+  uri: z.string().nullish(),
+  poll: z.unknown().nullish(),
+  visibility: z.string().nullish(), // public, home, followers or specified
+  localOnly: z.boolean().nullish(),
+  // Reaction (":name@host:" for custom emojis) -> count
+  reactions: z.record(z.string(), z.number()).nullish(),
+  // Total number of reactions (Misskey 2023.11+)
+  reactionCount: z.number().nullish(),
+  // Custom reaction emoji URLs keyed by "name@host" (Misskey 13+ and forks)
+  reactionEmojis: z.record(z.string(), z.string()).nullish(),
+  // Emoji list of older versions and Firefish
+  emojis: z.array(z.object({
+    name: z.string(),
+    url: z.string(),
+  }).passthrough()).nullish(),
+}).passthrough();
+
+export type MisskeyNote = z.infer<typeof MisskeyNoteSchema>;
+
+// Response of /api/notes/children
+export const MisskeyNoteListSchema = z.array(MisskeyNoteSchema);
+
+// Response of /api/emojis
+export const MisskeyEmojiListSchema = z.object({
+  emojis: z.array(z.object({
+    name: z.string(),
+    url: z.string().nullish(),
+  }).passthrough()),
+}).passthrough();
+
+// Response of /url (summaly link preview)
+export const MisskeyUrlPreviewSchema = z.object({
+  url: z.string().nullish(),
+  title: z.string().nullish(),
+  description: z.string().nullish(),
+  thumbnail: z.string().nullish(),
+  sitename: z.string().nullish(),
+}).passthrough();
+
+// --- PeerTube API ---
+
+const PeerTubeImageSchema = z.object({
+  path: z.string().nullish(),
+  url: z.string().nullish(),
+  fileUrl: z.string().nullish(),
+  width: z.number().nullish(),
+}).passthrough();
+
+const PeerTubeActorSchema = z.object({
+  id: IdSchema,
+  name: z.string(),
+  displayName: z.string().nullish(),
+  url: z.string().nullish(),
+  host: z.string().nullish(),
+  // Older versions expose a bare path string
+  avatar: z.union([z.string(), PeerTubeImageSchema]).nullish(),
+  avatars: z.array(PeerTubeImageSchema).nullish(),
+  avatarUrl: z.string().nullish(),
+}).passthrough();
+
+const PeerTubeVideoFileSchema = z.object({
+  fileUrl: z.string().nullish(),
+  resolution: z.object({
+    id: z.number().nullish(),
+    label: z.string().nullish(),
+    width: z.number().nullish(),
+    height: z.number().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const PeerTubeVideoSchema = z.object({
+  id: IdSchema,
+  uuid: z.string().nullish(),
+  name: z.string(),
+  description: z.string().nullish(),
+  publishedAt: z.string(),
+  account: PeerTubeActorSchema,
+  channel: PeerTubeActorSchema.nullish(),
+  files: z.array(PeerTubeVideoFileSchema).nullish(),
+  streamingPlaylists: z.array(z.object({
+    files: z.array(PeerTubeVideoFileSchema).nullish(),
+  }).passthrough()).nullish(),
+  previewPath: z.string().nullish(),
+  thumbnailPath: z.string().nullish(),
+  commentsTotal: z.number().nullish(),
+  duration: z.number().nullish(), // Seconds
+  views: z.number().nullish(),
+  likes: z.number().nullish(),
+  dislikes: z.number().nullish(),
+  licence: z.object({
+    id: z.number().nullish(),
+    label: z.string().nullish(),
+  }).passthrough().nullish(),
+  nsfw: z.boolean().nullish(),
+  url: z.string().nullish(),
+  tags: z.array(z.string()).nullish(),
+}).passthrough();
+
+export type PeerTubeVideo = z.infer<typeof PeerTubeVideoSchema>;
+
+// --- Lemmy API (also served by PieFed under /api/alpha) ---
+
+const LemmyPersonSchema = z.object({
+  id: IdSchema,
+  name: z.string(),
+  display_name: z.string().nullish(),
+  avatar: z.string().nullish(),
+  // The home instance is read from the actor ID
+  actor_id: z.string().url(),
+}).passthrough();
+
+const LemmyCommunitySchema = z.object({
+  id: IdSchema,
+  name: z.string(),
+  title: z.string().nullish(),
+  actor_id: z.string().url(),
+}).passthrough();
+
+const LemmyPostSchema = z.object({
+  id: IdSchema,
+  name: z.string(),
+  body: z.string().nullish(),
+  url: z.string().nullish(),
+  thumbnail_url: z.string().nullish(),
+  embed_title: z.string().nullish(),
+  embed_description: z.string().nullish(),
+  nsfw: z.boolean().nullish(),
+  published: z.string(),
+  updated: z.string().nullish(),
+  ap_id: z.string(),
+}).passthrough();
+
+const LemmyCountsSchema = z.object({
+  score: z.number(),
+  upvotes: z.number().nullish(),
+  downvotes: z.number().nullish(),
+  comments: z.number().nullish(),
+  child_count: z.number().nullish(),
+}).passthrough();
+
+export const LemmyPostResponseSchema = z.object({
+  post_view: z.object({
+    post: LemmyPostSchema,
+    creator: LemmyPersonSchema,
+    community: LemmyCommunitySchema,
+    counts: LemmyCountsSchema,
+  }).passthrough(),
+}).passthrough();
+
+export const LemmyCommentResponseSchema = z.object({
+  comment_view: z.object({
+    comment: z.object({
+      id: IdSchema,
+      content: z.string(),
+      published: z.string(),
+      updated: z.string().nullish(),
+      ap_id: z.string(),
+    }).passthrough(),
+    post: LemmyPostSchema,
+    creator: LemmyPersonSchema,
+    community: LemmyCommunitySchema,
+    counts: LemmyCountsSchema,
+  }).passthrough(),
+}).passthrough();
+
+// --- Funkwhale API ---
+
+const FunkwhaleCoverSchema = z.object({
+  urls: z.object({
+    original: z.string().nullish(),
+    large_square_crop: z.string().nullish(),
+    medium_square_crop: z.string().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+const FunkwhaleArtistSchema = z.object({
+  id: IdSchema,
+  name: z.string(),
+}).passthrough();
+
+export const FunkwhaleTrackSchema = z.object({
+  id: IdSchema,
+  title: z.string(),
+  // Funkwhale 1.x has a single artist, 2.x a list of credits
+  artist: FunkwhaleArtistSchema.nullish(),
+  artist_credit: z.array(z.object({
+    credit: z.string(),
+    joinphrase: z.string().nullish(),
+  }).passthrough()).nullish(),
+  album: z.object({
+    title: z.string(),
+    cover: FunkwhaleCoverSchema.nullish(),
+  }).passthrough().nullish(),
+  cover: FunkwhaleCoverSchema.nullish(),
+  description: z.object({
+    html: z.string().nullish(),
+  }).passthrough().nullish(),
+  uploads: z.array(z.object({
+    listen_url: z.string().nullish(),
+    duration: z.number().nullish(),
+    size: z.number().nullish(),
+  }).passthrough()).nullish(),
+  listen_url: z.string().nullish(),
+  tags: z.array(z.string()).nullish(),
+  attributed_to: z.object({
+    id: IdSchema.nullish(),
+    preferred_username: z.string(),
+    full_username: z.string().nullish(),
+    name: z.string().nullish(),
+    domain: z.string().nullish(),
+    icon: FunkwhaleCoverSchema.nullish(),
+  }).passthrough().nullish(),
+  creation_date: z.string(),
+}).passthrough();
+
+// --- ActivityPub ---
+
+export const ActivityPubTagSchema = z.object({
+  type: z.string().nullish(),
+  name: z.string().nullish(),
+  href: z.string().nullish(),
+  mediaType: z.string().nullish(),
+  icon: z.unknown().nullish(),
+}).passthrough();
+
+export type ActivityPubTag = z.infer<typeof ActivityPubTagSchema>;
+
+export const ActivityPubActorSchema = z.object({
+  id: z.string(),
+  type: z.string().nullish(),
+  preferredUsername: z.string().nullish(),
+  name: z.string().nullish(),
+  url: z.unknown().nullish(),
+  icon: z.unknown().nullish(),
+  image: z.unknown().nullish(),
+  tag: oneOrMany(ActivityPubTagSchema),
+}).passthrough();
+
+export type ActivityPubActor = z.infer<typeof ActivityPubActorSchema>;
+
+// Poll of an ActivityPub object (`poll` or `question`); counts are sometimes serialized as strings
+export const ActivityPubPollSchema = z.object({
+  id: z.string().nullish(),
+  options: z.array(z.object({
+    content: z.string().nullish(),
+    name: z.string().nullish(),
+    title: z.string().nullish(),
+    votesCount: z.union([z.number(), z.string()]).nullish(),
+    count: z.union([z.number(), z.string()]).nullish(),
+    url: z.string().nullish(),
+  }).passthrough()).nullish(),
+  expired: z.boolean().nullish(),
+  expiresAt: z.string().nullish(),
+  expiredAt: z.string().nullish(),
+  closed: z.unknown().nullish(),
+  votesCount: z.union([z.number(), z.string()]).nullish(),
+  totalVotes: z.union([z.number(), z.string()]).nullish(),
+  votersCount: z.union([z.number(), z.string()]).nullish(),
+  participantsCount: z.union([z.number(), z.string()]).nullish(),
+  voted: z.boolean().nullish(),
+  ownVotes: z.array(z.number()).nullish(),
+  votedOptions: z.array(z.number()).nullish(),
+}).passthrough();
+
+// Link object of an attachment's `url`; PeerTube lists every file and the thumbnail
+export const ActivityPubLinkSchema = z.object({
+  href: z.string().nullish(),
+  url: z.unknown().nullish(),
+  mediaType: z.string().nullish(),
+}).passthrough();
+
+export type ActivityPubLink = z.infer<typeof ActivityPubLinkSchema>;
+
+export const ActivityPubAttachmentSchema = z.object({
+  type: z.string(),
+  mediaType: z.string().nullish(),
+  // A URL, a Link or a list of them
+  url: z.union([
+    z.string(),
+    ActivityPubLinkSchema,
+    z.array(z.union([z.string(), ActivityPubLinkSchema])),
+  ]).nullish(),
+  // Video thumbnails (Image objects or URLs)
+  preview: z.unknown().nullish(),
+  thumbnail: z.unknown().nullish(),
+  image: z.unknown().nullish(),
+  // Link attachments (Lemmy link posts) use href
+  href: z.string().nullish(),
+  name: z.string().nullish(),
+  width: z.number().nullish(),
+  height: z.number().nullish(),
+}).passthrough();
+
+export const ActivityPubNoteSchema = z.object({
+  id: z.string(),
+  type: z.string().nullish(),
+  name: z.string().nullish(),
+  content: z.string().nullish(),
+  summary: z.string().nullish(),
+  published: z.string().nullish(),
+  updated: z.string().nullish(),
+  // A single actor (embedded or by URL), or several (PeerTube lists the account and the channel)
+  attributedTo: z.union([
+    z.string(),
+    ActivityPubActorSchema,
+    z.array(z.union([z.string(), ActivityPubActorSchema])),
+  ]).nullish(),
+  attachment: oneOrMany(ActivityPubAttachmentSchema),
+  tag: oneOrMany(ActivityPubTagSchema),
+  url: z.unknown().nullish(),
+  inReplyTo: z.union([z.string(), z.object({ id: z.string() }).passthrough()]).nullish(),
+  sensitive: z.boolean().nullish(),
+  replies: z.unknown().nullish(),
+  // Poll shapes vary too much to validate with the object; see ActivityPubPollSchema
+  poll: z.unknown().nullish(),
+  question: z.unknown().nullish(),
+  // Object of a Create activity (by URL or embedded)
+  object: z.union([
+    z.string(),
+    z.object({
+      id: z.string().nullish(),
+      type: z.string().nullish(),
+      poll: z.unknown().nullish(),
+      question: z.unknown().nullish(),
+    }).passthrough(),
+  ]).nullish(),
+  // Addressing; entries are usually URLs but may be embedded objects
+  to: z.unknown().nullish(),
+  cc: z.unknown().nullish(),
+  contentMap: z.record(z.string(), z.unknown()).nullish(),
+  // Community (Group) a post was made in
+  audience: z.unknown().nullish(),
+  // Event objects (Mobilizon, Gancio)
+  startTime: z.string().nullish(),
+  endTime: z.string().nullish(),
+  location: z.unknown().nullish(),
+  joinMode: z.string().nullish(),
+  participantCount: z.number().nullish(),
+  maximumAttendeeCapacity: z.number().nullish(),
+  // BookWyrm reviews, comments and quotations
+  inReplyToBook: z.string().nullish(),
+  rating: z.number().nullish(),
+  position: z.number().nullish(),
+  endposition: z.number().nullish(),
+  positionMode: z.string().nullish(), // PG (page) or PCT (percent)
+}).passthrough();
+
+export type ActivityPubNote = z.infer<typeof ActivityPubNoteSchema>;
+
+// Boost of an object (embedded or by URL)
+export const ActivityPubAnnounceSchema = z.object({
+  id: z.string(),
+  type: z.literal('Announce'),
+  actor: z.union([z.string(), ActivityPubActorSchema]).nullish(),
+  object: z.union([z.string(), z.object({ id: z.string().nullish() }).passthrough()]),
+  published: z.string().nullish(),
+  url: z.unknown().nullish(),
+}).passthrough();
+
+// BookWyrm book edition, referenced by reviews, comments and quotations
+export const BookWyrmEditionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  subtitle: z.string().nullish(),
+  authors: z.array(z.string()).nullish(), // Author URLs
+  cover: z.object({
+    url: z.string().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+// Object in JSON-LD embedded in a web page; scrapers fill in the author and media from the HTML around it
+// before it is validated as an ActivityPubNote
+export const JsonLdObjectSchema = z.object({
+  type: z.unknown().nullish(),
+  content: z.string().nullish(),
+  attributedTo: z.union([
+    z.string(),
+    z.object({
+      icon: z.unknown().nullish(),
+      preferredUsername: z.string().nullish(),
+      name: z.string().nullish(),
+    }).passthrough(),
+  ]).nullish(),
+  attachment: z.array(z.object({
+    type: z.unknown().nullish(),
+    preview: z.unknown().nullish(),
+    thumbnail: z.unknown().nullish(),
+  }).passthrough()).nullish(),
+  tag: z.array(z.unknown()).nullish(),
+}).passthrough();
+
+export type JsonLdObject = z.infer<typeof JsonLdObjectSchema>;
+
+// JSON-LD document; the object may sit in an @graph list
+export const JsonLdDocumentSchema = JsonLdObjectSchema.extend({
+  '@graph': z.array(z.unknown()).nullish(),
+});
+
+// --- WebFinger ---
+
+export const WebFingerSchema = z.object({
+  subject: z.string().nullish(),
+  links: z.array(z.object({
+    rel: z.string().nullish(),
+    type: z.string().nullish(),
+    href: z.string().nullish(),
+  }).passthrough()).nullish(),
+}).passthrough();
+
+// --- NodeInfo ---
+
+export const NodeInfoDiscoverySchema = z.object({
+  links: z.array(z.object({
+    rel: z.string(),
+    href: z.string(),
+  }).passthrough()),
+}).passthrough();
+
+export const NodeInfoSchema = z.object({
+  software: z.object({
+    name: z.string(),
+    // A few servers report the version as a number
+    version: z.coerce.string().nullish(),
+  }).passthrough(),
+}).passthrough();
+
+/**
+ * Raised when an upstream response doesn't match its schema
+ */
+export class UpstreamParseError extends Error {
+  constructor(public readonly source: string, public readonly path: string, detail: string) {
+    super(`Unexpected ${source} response: ${path ? `${path}: ` : ''}${detail}`);
+    this.name = 'UpstreamParseError';
+  }
+}
+
+/**
+ * Validate an upstream response, throwing UpstreamParseError with the path of the first bad field
+ */
+export function parseUpstream<T extends z.ZodTypeAny>(schema: T, data: unknown, source: string): z.output<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issue = result.error.issues[0];
+  const path = issue.path.map(segment => (typeof segment === 'number' ? `[${segment}]` : `.${segment}`)).join('').replace(/^\./, '');
+  throw new UpstreamParseError(source, path, issue.message);
+}
@@ -1,4 +1,13 @@
 import { PlatformConfig, SUPPORTED_PLATFORMS } from '../types/activitypub';
+import type { FediverseAccount, FediverseArticle, FediverseRevision, FediverseAttachment, FediverseBook, FediverseCommunity, FediverseEmoji, FediverseEvent, FediverseEventLocation, FediverseLinkCard, FediversePoll, FediversePost, FediverseReaction, FediverseVisibility } from '../types/activitypub';
+import { htmlToText, sanitizeHtml, sanitizePost, sanitizeUrl } from './htmlSanitizer';
+import { MastodonStatusSchema, MastodonStatusEditSchema, MisskeyNoteSchema, MisskeyUrlPreviewSchema, LemmyPostResponseSchema, LemmyCommentResponseSchema, FunkwhaleTrackSchema, BookWyrmEditionSchema, ActivityPubNoteSchema, ActivityPubActorSchema, ActivityPubAnnounceSchema, ActivityPubPollSchema, parseUpstream } from '../types/schemas';
+import type { MastodonStatus, MisskeyNote, ActivityPubActor, ActivityPubLink, ActivityPubNote, ActivityPubTag } from '../types/schemas';
+import { renderMarkdown } from './markdownRenderer';
+import { renderMfm } from './mfmRenderer';
+import { signedFetch } from './httpSignature';
+import { isPublicUrl } from './hostValidator';
+import { ARTICLE_CONFIG } from '../constants';
 
 export interface ParsedUrl {
   platform: string;
@@ -6,6 +15,7 @@ export interface ParsedUrl {
   id: string;
   originalUrl: string;
   username?: string;
+  accessToken?: string; // Set by FediverseClient when the user is logged in to this domain
 }
 
 export interface FetchResult {
@@ -152,53 +162,93 @@ export function extractDomain(url: string): string | null {
   }
 }
 
+/**
+ * Map a platform media type onto the attachment types we render
+ */
+function normalizeAttachmentType(type: string): FediverseAttachment['type'] {
+  const normalized = type.toLowerCase();
+  return normalized === 'image' || normalized === 'video' || normalized === 'audio' || normalized === 'gifv' ? normalized : 'document';
+}
+
+// Misskey scopes by their Mastodon equivalent; "home" is Misskey's unlisted
+const MISSKEY_VISIBILITY: Record<string, FediverseVisibility> = {
+  public: 'public',
+  home: 'unlisted',
+  followers: 'private',
+  specified: 'direct',
+};
+
+// Spellings of the public collection in `to`/`cc` (compacted forms come from JSON-LD processors)
+const ACTIVITYSTREAMS_PUBLIC = new Set(['https://www.w3.org/ns/activitystreams#Public', 'as:Public', 'Public']);
+
+/**
+ * Map a Mastodon-API visibility onto our audiences
+ * Akkoma's "local" posts are public on their instance (and flagged local-only); Pleroma's "list" posts reach a subset of followers
+ */
+function normalizeMastodonVisibility(visibility: string | null | undefined): FediverseVisibility | undefined {
+  switch (visibility) {
+    case 'public':
+    case 'unlisted':
+    case 'private':
+    case 'direct':
+      return visibility;
+    case 'local':
+      return 'public';
+    case 'list':
+      return 'private';
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Convert Mastodon format to our universal Fediverse format
+ * Also used for the Mastodon-compatible APIs of Pleroma, Akkoma, GoToSocial and Pixelfed
  */
-export function convertMastodonToUniversal(mastodonData: any): any {
+export function convertMastodonToUniversal(data: unknown, platform = 'mastodon'): FediversePost {
+  const mastodonData = parseUpstream(MastodonStatusSchema, data, 'Mastodon status');
+
   // Collect emojis from both account and post content
-  const accountEmojis = mastodonData.account.emojis?.map((emoji: any) => ({
+  const accountEmojis: FediverseEmoji[] = mastodonData.account.emojis?.map(emoji => ({
     shortcode: emoji.shortcode,
     url: emoji.url,
-    staticUrl: emoji.static_url,
+    staticUrl: emoji.static_url || undefined,
   })) || [];
 
-  const contentEmojis = mastodonData.emojis?.map((emoji: any) => ({
+  const contentEmojis: FediverseEmoji[] = mastodonData.emojis?.map(emoji => ({
     shortcode: emoji.shortcode,
     url: emoji.url,
-    staticUrl: emoji.static_url,
+    staticUrl: emoji.static_url || undefined,
   })) || [];
 
   // Merge emojis, removing duplicates based on shortcode
   const allEmojis = [...accountEmojis];
-  contentEmojis.forEach((emoji: any) => {
-    if (!allEmojis.find((e: any) => e.shortcode === emoji.shortcode)) {
+  contentEmojis.forEach(emoji => {
+    if (!allEmojis.find(e => e.shortcode === emoji.shortcode)) {
       allEmojis.push(emoji);
     }
   });
 
-  // Log avatar for debugging
-  
-  
+  const quotedStatus = extractMastodonQuote(mastodonData);
 
-  return {
+  return sanitizePost({
     id: mastodonData.id,
-    content: mastodonData.content,
+    content: mastodonData.content || '',
     createdAt: mastodonData.created_at,
-    updatedAt: mastodonData.edited_at,
+    updatedAt: mastodonData.edited_at || undefined,
     account: {
       id: mastodonData.account.id,
       username: mastodonData.account.username,
       displayName: mastodonData.account.display_name || mastodonData.account.username,
-      avatar: mastodonData.account.avatar,
-      url: mastodonData.account.url,
+      avatar: mastodonData.account.avatar || undefined,
+      url: mastodonData.account.url || '',
       acct: mastodonData.account.acct,
-      platform: 'mastodon',
+      platform,
       emojis: allEmojis,
     },
-    attachments: mastodonData.media_attachments?.map((attachment: any) => {
+    attachments: mastodonData.media_attachments?.map(attachment => {
       // Normalize attachment type - Pixelfed may return 'document' for videos
-      let normalizedType = attachment.type;
+      let normalizedType = normalizeAttachmentType(attachment.type);
 
       // If type is 'document' but URL ends with video extensions, treat as video
       if (attachment.type === 'document' || attachment.type === 'unknown') {
@@ -209,7 +259,7 @@ export function convertMastodonToUniversal(mastodonData: any): any {
       }
 
       // Get preview URL
-      let previewUrl = attachment.preview_url || attachment.preview_image_url;
+      let previewUrl = attachment.preview_url || attachment.preview_image_url || undefined;
 
       // If no preview URL and this is a video, try to derive one
       if (!previewUrl && (normalizedType === 'video' || attachment.type === 'document')) {
@@ -235,24 +285,29 @@ export function convertMastodonToUniversal(mastodonData: any): any {
 
       return {
         type: normalizedType,
-        url: attachment.url,
+        url: attachment.url || '',
         previewUrl: previewUrl,
-        description: attachment.description,
-        width: attachment.meta?.original?.width,
-        height: attachment.meta?.original?.height,
-        blurhash: attachment.blurhash,
+        description: attachment.description || undefined,
+        width: attachment.meta?.original?.width ?? undefined,
+        height: attachment.meta?.original?.height ?? undefined,
+        blurhash: attachment.blurhash || undefined,
+        duration: attachment.meta?.original?.duration ?? undefined,
       };
     }) || [],
-    repliesCount: mastodonData.replies_count,
-    boostsCount: mastodonData.reblogs_count,
-    favouritesCount: mastodonData.favourites_count,
-    sensitive: mastodonData.sensitive,
-    spoilerText: mastodonData.spoiler_text,
-    url: mastodonData.url,
-    platform: 'mastodon',
-    inReplyTo: mastodonData.in_reply_to_id,
-    language: mastodonData.language,
-    tags: mastodonData.tags?.map((tag: any) => ({
+    repliesCount: mastodonData.replies_count || 0,
+    boostsCount: mastodonData.reblogs_count || 0,
+    favouritesCount: mastodonData.favourites_count || 0,
+    sensitive: !!mastodonData.sensitive,
+    spoilerText: mastodonData.spoiler_text || '',
+    url: mastodonData.url || mastodonData.uri || '',
+    platform,
+    inReplyTo: mastodonData.in_reply_to_id || undefined,
+    inReplyToAccount: extractMastodonReplyAccount(mastodonData),
+    language: mastodonData.language || undefined,
+    visibility: normalizeMastodonVisibility(mastodonData.visibility),
+    // Only the author's own instance knows the client, so remote statuses usually have none
+    application: mastodonData.application?.name || undefined,
+    tags: mastodonData.tags?.map(tag => ({
       name: tag.name,
       url: tag.url,
       type: 'hashtag' as const,
@@ -260,157 +315,748 @@ export function convertMastodonToUniversal(mastodonData: any): any {
     // Add poll support if present
     poll: mastodonData.poll ? {
       id: mastodonData.poll.id,
-      options: mastodonData.poll.options.map((option: any) => ({
+      options: mastodonData.poll.options.map(option => ({
         title: option.title,
-        votes_count: option.votes_count,
-        url: option.url,
+        votes_count: option.votes_count || 0,
       })),
-      expired: mastodonData.poll.expired,
-      expires_at: mastodonData.poll.expires_at,
-      multiple: mastodonData.poll.multiple,
-      votes_count: mastodonData.poll.votes_count,
-      voters_count: mastodonData.poll.voters_count,
-      voted: mastodonData.poll.voted,
-      own_votes: mastodonData.poll.own_votes,
+      expired: !!mastodonData.poll.expired,
+      expires_at: mastodonData.poll.expires_at || undefined,
+      multiple: !!mastodonData.poll.multiple,
+      votes_count: mastodonData.poll.votes_count || 0,
+      voters_count: mastodonData.poll.voters_count ?? undefined,
+      voted: mastodonData.poll.voted ?? undefined,
+      own_votes: mastodonData.poll.own_votes ?? undefined,
     } : undefined,
+    // Boosts carry the original status in `reblog`
+    reblog: mastodonData.reblog ? convertMastodonToUniversal(mastodonData.reblog, platform) : undefined,
+    quote: quotedStatus ? convertMastodonToUniversal(quotedStatus, platform) : undefined,
+    card: mastodonData.card?.url && mastodonData.card?.title ? {
+      url: mastodonData.card.url,
+      title: mastodonData.card.title,
+      description: mastodonData.card.description || undefined,
+      image: mastodonData.card.image || undefined,
+      providerName: mastodonData.card.provider_name || undefined,
+    } : undefined,
+    // Friendica posts can have a title
+    title: mastodonData.friendica?.title || undefined,
+    // Pleroma/Akkoma emoji reactions
+    reactions: mastodonData.pleroma?.emoji_reactions?.length
+      ? mastodonData.pleroma.emoji_reactions
+        .map(reaction => reaction.url
+          ? { name: `:${reaction.name}:`, count: reaction.count, url: reaction.url }
+          : { name: reaction.name, count: reaction.count })
+        .sort((a, b) => b.count - a.count)
+      : undefined,
+    // Akkoma uses a dedicated "local" visibility, glitch-soc and GoToSocial a flag
+    localOnly: mastodonData.local_only || mastodonData.visibility === 'local' || undefined,
+  });
+}
+
+/**
+ * Find the acct of the replied-to author: Pleroma/Akkoma name it, otherwise it is among the mentions
+ * (or the author themself, for threads)
+ */
+function extractMastodonReplyAccount(mastodonData: MastodonStatus): string | undefined {
+  if (!mastodonData.in_reply_to_account_id) {
+    return undefined;
+  }
+  if (mastodonData.pleroma?.in_reply_to_account_acct) {
+    return mastodonData.pleroma.in_reply_to_account_acct;
+  }
+  if (mastodonData.in_reply_to_account_id === mastodonData.account.id) {
+    return mastodonData.account.acct;
+  }
+  return mastodonData.mentions?.find(mention => mention.id === mastodonData.in_reply_to_account_id)?.acct;
+}
+
+/**
+ * Find the quoted status in the shapes used by Mastodon 4.4+ (`quote.quoted_status`),
+ * Fedibird/Akkoma (`quote` is the status itself) and Pleroma (`pleroma.quote`)
+ */
+function extractMastodonQuote(mastodonData: MastodonStatus): unknown {
+  const quote = mastodonData.quote;
+
+  if (quote && 'quoted_status' in quote && quote.quoted_status) {
+    return quote.quoted_status;
+  }
+
+  // Pending, rejected or revoked Mastodon quotes carry no status
+  if (quote && 'id' in quote && quote.account) {
+    return quote;
+  }
+
+  return mastodonData.pleroma?.quote || null;
+}
+
+/**
+ * Convert the reactions of a Misskey note, resolving custom reaction emoji URLs
+ * Local custom reactions look like `:name@.:`, remote ones like `:name@host:`
+ */
+function extractMisskeyReactions(misskeyData: MisskeyNote, instanceEmojis: Map<string, string>): FediverseReaction[] | undefined {
+  const reactions = Object.entries(misskeyData.reactions || {});
+  if (reactions.length === 0) {
+    return undefined;
+  }
+
+  const noteEmojis = new Map((misskeyData.emojis || []).map(emoji => [emoji.name, emoji.url]));
+
+  return reactions.map(([reaction, count]) => {
+    const custom = reaction.match(/^:([^:@]+)(?:@([^:]+))?:$/);
+    if (!custom) {
+      return { name: reaction, count };
+    }
+
+    const [, shortcode, host] = custom;
+    const isLocal = !host || host === '.';
+    const key = isLocal ? shortcode : `${shortcode}@${host}`;
+    return {
+      name: `:${shortcode}:`,
+      count,
+      url: misskeyData.reactionEmojis?.[key] || noteEmojis.get(key) || (isLocal ? instanceEmojis.get(shortcode) : undefined),
+    };
+  }).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Convert Misskey note format to our universal Fediverse format
+ * Also used for the forks sharing its API (Sharkey, Firefish, Iceshrimp)
+ * Misskey doesn't include emoji URLs in the note, so they are resolved from the instance emoji list
+ */
+export function convertMisskeyToUniversal(data: unknown, domain: string, instanceEmojis: Map<string, string>, platform = 'misskey'): FediversePost {
+  const misskeyData = parseUpstream(MisskeyNoteSchema, data, 'Misskey note');
+
+  // Extract emoji shortcodes from text and user name
+  const textToScan = `${misskeyData.text || ''} ${misskeyData.user?.name || ''}`;
+  const emojiPattern = /:([a-zA-Z0-9_]+):/g;
+  const foundEmojiNames = new Set<string>();
+  let match;
+
+  while ((match = emojiPattern.exec(textToScan)) !== null) {
+    foundEmojiNames.add(match[1]);
+  }
+
+  // Build emoji list from instance emojis
+  const allEmojis: FediverseEmoji[] = [];
+
+  // For each emoji found in text, look it up in the instance emoji list
+  foundEmojiNames.forEach(emojiName => {
+    const emojiUrl = instanceEmojis.get(emojiName);
+    if (emojiUrl) {
+      allEmojis.push({
+        shortcode: emojiName,
+        url: emojiUrl,
+        staticUrl: emojiUrl,
+      });
+    } else {
+      console.warn(`Emoji :${emojiName}: not found in instance emoji list`);
+    }
+  });
+
+  // A renote without its own text, files or poll is a pure boost
+  const isPureRenote = !!misskeyData.renote && !misskeyData.text && !misskeyData.files?.length && !misskeyData.poll;
+  const reactions = extractMisskeyReactions(misskeyData, instanceEmojis);
+
+  return sanitizePost({
+    id: misskeyData.id,
+    content: renderMfm(misskeyData.text || misskeyData.cw || '', domain),
+    createdAt: misskeyData.createdAt,
+    updatedAt: misskeyData.updatedAt || undefined,
+    account: {
+      id: misskeyData.user.id,
+      username: misskeyData.user.username,
+      displayName: misskeyData.user.name || misskeyData.user.username,
+      avatar: misskeyData.user.avatarUrl || undefined,
+      url: misskeyData.user.url || `https://${domain}/@${misskeyData.user.username}${misskeyData.user.host ? `@${misskeyData.user.host}` : ''}`,
+      acct: `${misskeyData.user.username}@${misskeyData.user.host || domain}`,
+      platform,
+      emojis: allEmojis,
+    },
+    attachments: misskeyData.files?.map(file => ({
+      type: file.type.startsWith('image/') ? 'image' as const : file.type.startsWith('video/') ? 'video' as const : 'document' as const,
+      url: file.url,
+      description: file.comment || undefined,
+      width: file.properties?.width ?? undefined,
+      height: file.properties?.height ?? undefined,
+    })) || [],
+    repliesCount: misskeyData.repliesCount || 0,
+    boostsCount: misskeyData.renoteCount || 0,
+    // Misskey has no likes, only reactions; their total takes the place of the favourite count
+    favouritesCount: misskeyData.reactionCount ?? reactions?.reduce((total, reaction) => total + reaction.count, 0) ?? 0,
+    sensitive: !!misskeyData.cw,
+    spoilerText: misskeyData.cw || '',
+    url: misskeyData.url || misskeyData.uri || `https://${domain}/notes/${misskeyData.id}`,
+    platform,
+    inReplyTo: misskeyData.replyId || undefined,
+    // Like Misskey's own acct, remote users carry their host
+    inReplyToAccount: misskeyData.reply ? `${misskeyData.reply.user.username}${misskeyData.reply.user.host ? `@${misskeyData.reply.user.host}` : ''}` : undefined,
+    visibility: misskeyData.visibility ? MISSKEY_VISIBILITY[misskeyData.visibility] : undefined,
+    tags: misskeyData.tags?.map(tag => ({
+      name: `#${tag}`,
+      url: `https://${domain}/tags/${tag}`,
+      type: 'hashtag' as const,
+    })) || [],
+    reblog: isPureRenote ? convertMisskeyToUniversal(misskeyData.renote, domain, instanceEmojis, platform) : undefined,
+    // A renote with its own text is a quote
+    quote: misskeyData.renote && !isPureRenote ? convertMisskeyToUniversal(misskeyData.renote, domain, instanceEmojis, platform) : undefined,
+    reactions,
+    localOnly: misskeyData.localOnly || undefined,
+  });
+}
+
+/**
+ * Convert a Misskey URL preview (summaly) response to our link card format
+ */
+export function convertMisskeyUrlPreviewToCard(data: unknown, url: string): FediverseLinkCard | undefined {
+  // A preview is optional, so a malformed one is dropped instead of failing the post
+  const preview = MisskeyUrlPreviewSchema.safeParse(data);
+  if (!preview.success) {
+    return undefined;
+  }
+
+  const summary = preview.data;
+  const cardUrl = sanitizeUrl(summary.url) || sanitizeUrl(url);
+  if (!summary.title || !cardUrl) {
+    return undefined;
+  }
+
+  return {
+    url: cardUrl,
+    title: summary.title,
+    description: summary.description || undefined,
+    image: sanitizeUrl(summary.thumbnail),
+    providerName: summary.sitename || undefined,
   };
 }
 
 /**
- * Fetch user object from ActivityPub actor URL
+ * Lemmy versions before 0.19 return timestamps without a timezone; they are UTC
  */
-async function fetchUserObject(actorUrl: string): Promise<any> {
+function normalizeLemmyDate(date: string): string {
+  return /(?:Z|[+-]\d{2}:?\d{2})$/i.test(date) ? date : `${date}Z`;
+}
+
+/**
+ * Convert a Lemmy person to our account format; the actor ID carries the home instance
+ */
+function convertLemmyPerson(person: { id: string; name: string; display_name?: string | null; avatar?: string | null; actor_id: string }): FediverseAccount {
+  return {
+    id: person.id,
+    username: person.name,
+    displayName: person.display_name || person.name,
+    avatar: person.avatar || undefined,
+    url: person.actor_id,
+    acct: `${person.name}@${new URL(person.actor_id).hostname}`,
+    platform: 'lemmy',
+    emojis: [],
+  };
+}
+
+/**
+ * Convert a Lemmy community to our community format
+ */
+function convertLemmyCommunity(community: { name: string; title?: string | null; actor_id: string }): FediverseCommunity {
+  return {
+    name: `${community.name}@${new URL(community.actor_id).hostname}`,
+    title: community.title || community.name,
+    url: community.actor_id,
+  };
+}
+
+/**
+ * Convert a Lemmy (or PieFed) post view to our universal Fediverse format
+ * Bodies are Markdown; link posts keep their target as an image attachment or a link card
+ */
+export function convertLemmyPostToUniversal(data: unknown): FediversePost {
+  const { post_view: view } = parseUpstream(LemmyPostResponseSchema, data, 'Lemmy post');
+  const { post, counts } = view;
+
+  const linkUrl = post.url || undefined;
+  const isImageLink = !!linkUrl && /\.(jpe?g|png|gif|webp|avif)(?:\?.*)?$/i.test(linkUrl);
+
+  return sanitizePost({
+    id: post.id,
+    content: renderMarkdown(post.body || ''),
+    createdAt: normalizeLemmyDate(post.published),
+    updatedAt: post.updated ? normalizeLemmyDate(post.updated) : undefined,
+    account: convertLemmyPerson(view.creator),
+    attachments: isImageLink ? [{ type: 'image' as const, url: linkUrl }] : [],
+    repliesCount: counts.comments || 0,
+    boostsCount: 0, // Lemmy has no boosts
+    favouritesCount: counts.upvotes ?? counts.score,
+    sensitive: !!post.nsfw,
+    spoilerText: post.nsfw ? 'NSFW content' : '',
+    url: post.ap_id,
+    platform: 'lemmy',
+    tags: [],
+    card: linkUrl && !isImageLink ? {
+      url: linkUrl,
+      title: post.embed_title || linkUrl,
+      description: post.embed_description || undefined,
+      image: post.thumbnail_url || undefined,
+    } : undefined,
+    title: post.name,
+    community: convertLemmyCommunity(view.community),
+    votes: {
+      score: counts.score,
+      upvotes: counts.upvotes ?? undefined,
+      downvotes: counts.downvotes ?? undefined,
+    },
+    linkUrl,
+  });
+}
+
+/**
+ * Convert a Lemmy (or PieFed) comment view to our universal Fediverse format
+ * The title of the commented post is kept as context
+ */
+export function convertLemmyCommentToUniversal(data: unknown): FediversePost {
+  const { comment_view: view } = parseUpstream(LemmyCommentResponseSchema, data, 'Lemmy comment');
+  const { comment, counts } = view;
+
+  return sanitizePost({
+    id: comment.id,
+    content: renderMarkdown(comment.content),
+    createdAt: normalizeLemmyDate(comment.published),
+    updatedAt: comment.updated ? normalizeLemmyDate(comment.updated) : undefined,
+    account: convertLemmyPerson(view.creator),
+    attachments: [],
+    repliesCount: counts.child_count || 0,
+    boostsCount: 0, // Lemmy has no boosts
+    favouritesCount: counts.upvotes ?? counts.score,
+    sensitive: !!view.post.nsfw,
+    spoilerText: view.post.nsfw ? 'NSFW content' : '',
+    url: comment.ap_id,
+    platform: 'lemmy',
+    tags: [],
+    parentTitle: view.post.name,
+    community: convertLemmyCommunity(view.community),
+    votes: {
+      score: counts.score,
+      upvotes: counts.upvotes ?? undefined,
+      downvotes: counts.downvotes ?? undefined,
+    },
+  });
+}
+
+/**
+ * Convert a Funkwhale track to our universal Fediverse format
+ * The track becomes a single audio attachment; the uploader (or the artist) is the author
+ */
+export function convertFunkwhaleTrackToUniversal(data: unknown, domain: string): FediversePost {
+  const track = parseUpstream(FunkwhaleTrackSchema, data, 'Funkwhale track');
+
+  // Media URLs are relative to the instance
+  const resolveUrl = (path?: string | null) =>
+    path ? (path.startsWith('http') ? path : `https://${domain}${path}`) : undefined;
+  const coverUrls = track.cover?.urls || track.album?.cover?.urls;
+  const upload = track.uploads?.[0];
+  const artist = track.artist_credit?.length
+    ? track.artist_credit.map(credit => `${credit.credit}${credit.joinphrase || ''}`).join('').trim()
+    : track.artist?.name || '';
+  const uploader = track.attributed_to;
+
+  const account: FediverseAccount = uploader ? {
+    id: uploader.id || uploader.preferred_username,
+    username: uploader.preferred_username,
+    displayName: uploader.name || uploader.preferred_username,
+    avatar: resolveUrl(uploader.icon?.urls?.medium_square_crop || uploader.icon?.urls?.original),
+    url: `https://${uploader.domain || domain}/@${uploader.preferred_username}`,
+    acct: uploader.full_username || `${uploader.preferred_username}@${uploader.domain || domain}`,
+    platform: 'funkwhale',
+    emojis: [],
+  } : {
+    id: track.artist?.id || track.id,
+    username: artist,
+    displayName: artist,
+    avatar: undefined,
+    url: track.artist ? `https://${domain}/library/artists/${track.artist.id}` : '',
+    acct: '',
+    platform: 'funkwhale',
+    emojis: [],
+  };
+
+  return sanitizePost({
+    id: track.id,
+    content: track.description?.html || '',
+    createdAt: track.creation_date,
+    account,
+    attachments: [{
+      type: 'audio',
+      url: resolveUrl(upload?.listen_url || track.listen_url) || '',
+      previewUrl: resolveUrl(coverUrls?.large_square_crop || coverUrls?.original),
+      description: artist ? `${artist} – ${track.title}` : track.title,
+      duration: upload?.duration ?? undefined,
+      title: track.title,
+      artist: artist || undefined,
+    }],
+    repliesCount: 0,
+    boostsCount: 0,
+    favouritesCount: 0,
+    sensitive: false,
+    spoilerText: '',
+    url: `https://${domain}/library/tracks/${track.id}`,
+    platform: 'funkwhale',
+    tags: track.tags?.map(tag => ({
+      name: `#${tag}`,
+      url: `https://${domain}/library/tags/${tag}`,
+      type: 'hashtag' as const,
+    })) || [],
+  });
+}
+
+/**
+ * Convert a Mastodon edit history (/api/v1/statuses/:id/history, oldest first) to revisions
+ */
+export function convertMastodonHistoryToRevisions(data: unknown): FediverseRevision[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+
+  return data.map(entry => {
+    const edit = parseUpstream(MastodonStatusEditSchema, entry, 'Mastodon status edit');
+    return {
+      content: sanitizeHtml(edit.content || ''),
+      spoilerText: edit.spoiler_text || '',
+      createdAt: edit.created_at,
+    };
+  });
+}
+
+/**
+ * Fetch an ActivityPub document (actor, note, ...) by its URL
+ * The URL comes from a remote document, so internal hosts are refused
+ */
+async function fetchActivityPubDocument(documentUrl: string): Promise<any> {
+  if (!isPublicUrl(documentUrl)) {
+    return null;
+  }
+
   try {
-    const response = await fetch(actorUrl, {
-      headers: {
-        'Accept': 'application/activity+json, application/ld+json, application/json'
-      }
+    const response = await signedFetch(documentUrl, {
+      'Accept': 'application/activity+json, application/ld+json, application/json'
     });
 
     if (!response.ok) {
       return null;
     }
 
-    const userObject = await response.json();
-
-    return userObject;
+    return await response.json();
   } catch (error) {
     return null;
   }
 }
 
+/**
+ * Pull a URL out of an ActivityPub link value (string, Link/Image object or an array of them)
+ */
+function extractActivityPubUrl(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return extractActivityPubUrl(value[0]);
+  }
+  if (value && typeof value === 'object') {
+    const link = value as { url?: unknown; href?: unknown };
+    return extractActivityPubUrl(link.url) || extractActivityPubUrl(link.href);
+  }
+  return undefined;
+}
+
+/**
+ * Derive the audience of an ActivityPub object from its addressing
+ * The public collection in `to` means public and in `cc` unlisted (Mastodon's convention); a followers collection
+ * means followers-only, and anything else is addressed to the mentioned actors only
+ */
+function extractActivityPubVisibility(activityPubData: ActivityPubNote): FediverseVisibility | undefined {
+  const recipients = (value: unknown): string[] => (Array.isArray(value) ? value : value ? [value] : [])
+    .map(entry => (typeof entry === 'string' ? entry : (entry as { id?: unknown } | null)?.id))
+    .filter((entry): entry is string => typeof entry === 'string');
+
+  const to = recipients(activityPubData.to);
+  const cc = recipients(activityPubData.cc);
+  if (to.length === 0 && cc.length === 0) {
+    return undefined;
+  }
+
+  if (to.some(recipient => ACTIVITYSTREAMS_PUBLIC.has(recipient))) {
+    return 'public';
+  }
+  if (cc.some(recipient => ACTIVITYSTREAMS_PUBLIC.has(recipient))) {
+    return 'unlisted';
+  }
+  // Most servers use <actor>/followers, Friendica /followers/<nick>
+  if ([...to, ...cc].some(recipient => /\/followers(?:\/[^\/?#]+)?$/.test(recipient))) {
+    return 'private';
+  }
+  return 'direct';
+}
+
+/**
+ * Build article mode metadata for a long-form post; the reading time covers the whole body
+ */
+export function createArticleInfo(content: string, summary?: string, heroImage?: string): FediverseArticle {
+  const text = htmlToText(content);
+  const cjkChars = (text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g) || []).length;
+  const words = text.replace(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g, ' ').split(/\s+/).filter(Boolean).length;
+  const minutes = words / ARTICLE_CONFIG.WORDS_PER_MINUTE + cjkChars / ARTICLE_CONFIG.CJK_CHARS_PER_MINUTE;
+
+  return {
+    summary: summary ? htmlToText(summary) || undefined : undefined,
+    heroImage,
+    readingTime: Math.max(1, Math.round(minutes)),
+  };
+}
+
+/**
+ * Derive the community of a link aggregator post from its audience (Lemmy /c/name, Mbin /m/name)
+ */
+function extractActivityPubCommunity(audience: unknown): FediverseCommunity | undefined {
+  const url = extractActivityPubUrl(audience);
+  const match = url ? url.match(/^https?:\/\/([^\/]+)\/(?:c|m)\/([^\/?#]+)/) : null;
+  return url && match ? { name: `${match[2]}@${match[1]}`, title: match[2], url } : undefined;
+}
+
+/**
+ * Read the place of an event: a Place with a PostalAddress (Mobilizon) or a plain address string (Gancio)
+ */
+function extractActivityPubLocation(location: unknown): FediverseEventLocation | undefined {
+  const place = (Array.isArray(location) ? location[0] : location) as { name?: unknown; address?: unknown } | null | undefined;
+  if (!place || typeof place !== 'object') {
+    return undefined;
+  }
+
+  let address: string | undefined;
+  if (typeof place.address === 'string') {
+    address = place.address;
+  } else if (place.address && typeof place.address === 'object') {
+    const postal = place.address as Record<string, unknown>;
+    const text = (key: string) => (typeof postal[key] === 'string' ? (postal[key] as string).trim() : '');
+    address = [
+      text('streetAddress'),
+      [text('postalCode'), text('addressLocality')].filter(Boolean).join(' '),
+      text('addressCountry'),
+    ].filter(Boolean).join(', ') || undefined;
+  }
+
+  const name = typeof place.name === 'string' ? place.name : undefined;
+  return name || address ? { name, address: address !== name ? address : undefined } : undefined;
+}
+
+/**
+ * Build the event details of an ActivityPub Event
+ */
+function extractActivityPubEvent(activityPubData: ActivityPubNote): FediverseEvent | undefined {
+  if (activityPubData.type !== 'Event' || !activityPubData.startTime) {
+    return undefined;
+  }
+
+  return {
+    startTime: activityPubData.startTime,
+    endTime: activityPubData.endTime || undefined,
+    location: extractActivityPubLocation(activityPubData.location),
+    // Mobilizon lists the online meeting link as a Link attachment
+    onlineUrl: activityPubData.attachment.find(att => att.type === 'Link')?.href || undefined,
+    participants: activityPubData.participantCount ?? undefined,
+    maxParticipants: activityPubData.maximumAttendeeCapacity || undefined,
+    joinMode: activityPubData.joinMode || undefined,
+  };
+}
+
+const BOOKWYRM_KINDS: Record<string, FediverseBook['kind']> = {
+  Review: 'review',
+  ReviewRating: 'review',
+  Comment: 'comment',
+  Quotation: 'quotation',
+  GeneratedNote: 'status',
+};
+
+/**
+ * Describe where a BookWyrm quotation is from, e.g. "p. 12–14" or "45%"
+ */
+function formatBookPosition(activityPubData: ActivityPubNote): string | undefined {
+  const { position, endposition, positionMode } = activityPubData;
+  if (!position) {
+    return undefined;
+  }
+
+  const range = endposition && endposition !== position ? `${position}–${endposition}` : `${position}`;
+  return positionMode === 'PCT' ? `${range}%` : `p. ${range}`;
+}
+
+/**
+ * Resolve the book of a BookWyrm status: the edition it replies to, or the edition mentioned by a reading status
+ * Returns undefined when the edition can't be fetched; the status is still shown without it
+ */
+async function resolveBookWyrmBook(activityPubData: ActivityPubNote): Promise<FediverseBook | undefined> {
+  const kind = activityPubData.type ? BOOKWYRM_KINDS[activityPubData.type] : undefined;
+  const editionUrl = activityPubData.inReplyToBook || activityPubData.tag.find(tag => tag.type === 'Edition')?.href;
+  if (!kind || !editionUrl) {
+    return undefined;
+  }
+
+  const edition = parseUpstream(BookWyrmEditionSchema, await fetchActivityPubDocument(editionUrl), 'BookWyrm edition');
+
+  // Only the first few authors are shown, so only those are fetched
+  const authors = await Promise.all((edition.authors || []).slice(0, 3).map(async authorUrl => {
+    const author = await fetchActivityPubDocument(authorUrl);
+    return typeof author?.name === 'string' ? author.name : null;
+  }));
+
+  const quote = activityPubData.quote;
+
+  return {
+    kind,
+    title: edition.title,
+    subtitle: edition.subtitle || undefined,
+    authors: authors.filter((name): name is string => !!name),
+    cover: edition.cover?.url || undefined,
+    url: edition.id,
+    rating: activityPubData.rating || undefined,
+    quote: kind === 'quotation' && typeof quote === 'string' ? quote : undefined,
+    position: kind === 'quotation' ? formatBookPosition(activityPubData) : undefined,
+  };
+}
+
+/**
+ * Extract custom emojis from an ActivityPub tag array
+ */
+function extractActivityPubEmojis(tags: ActivityPubTag[]): FediverseEmoji[] {
+  return tags.filter(tag => tag.type === 'Emoji').flatMap(emoji => {
+    const shortcode = emoji.name?.replace(/:/g, '');
+    const url = extractActivityPubUrl(emoji.icon);
+    return shortcode && url ? [{ shortcode, url, staticUrl: url }] : [];
+  });
+}
+
+/**
+ * Convert a validated ActivityPub actor to our account format
+ */
+export function convertActorToAccount(actor: ActivityPubActor, platform: string): FediverseAccount {
+  const domain = new URL(actor.id).hostname;
+  const username = actor.preferredUsername || actor.id.split('/').pop() || actor.id;
+
+  return {
+    id: actor.id,
+    username,
+    displayName: actor.name || username,
+    // Try multiple fields for avatar
+    avatar: extractActivityPubUrl(actor.icon) || extractActivityPubUrl(actor.image),
+    url: extractActivityPubUrl(actor.url) || actor.id,
+    acct: `${username}@${domain}`,
+    platform,
+    emojis: extractActivityPubEmojis(actor.tag),
+  };
+}
+
+/**
+ * Build account information from an ActivityPub actor (embedded object or actor URL)
+ */
+async function buildActivityPubAccount(attributedTo: ActivityPubNote['attributedTo'], platform: string): Promise<FediverseAccount> {
+  // PeerTube attributes videos to both the account and the channel; prefer the person
+  const actor = Array.isArray(attributedTo)
+    ? attributedTo.find(entry => typeof entry !== 'string' && entry.type === 'Person') ?? attributedTo[0]
+    : attributedTo;
+
+  if (!actor) {
+    // Fallback account info
+    return {
+      id: 'unknown',
+      username: 'unknown',
+      displayName: 'Unknown User',
+      url: '',
+      acct: '',
+      platform,
+      emojis: [],
+    };
+  }
+
+  if (typeof actor !== 'string') {
+    return convertActorToAccount(actor, platform);
+  }
+
+  // Fetch user object to get complete information including avatar
+  const userObject = ActivityPubActorSchema.safeParse(await fetchActivityPubDocument(actor));
+  if (userObject.success) {
+    return convertActorToAccount(userObject.data, platform);
+  }
+
+  // Fallback if user object fetch fails or is malformed
+  const username = actor.split('/').pop() || actor;
+  const domain = new URL(actor).hostname;
+  return {
+    id: actor,
+    username: username,
+    displayName: username,
+    avatar: undefined, // No avatar available
+    url: actor,
+    acct: `${username}@${domain}`,
+    platform,
+    emojis: [],
+  };
+}
+
+/**
+ * Resolve the acct of the author of the object a post replies to
+ */
+async function resolveActivityPubReplyAccount(inReplyTo: string, account: FediverseAccount, platform: string): Promise<string | undefined> {
+  const parent = ActivityPubNoteSchema.safeParse(await fetchActivityPubDocument(inReplyTo));
+  if (!parent.success || !parent.data.attributedTo) {
+    return undefined;
+  }
+
+  // Self-replies need no actor lookup
+  if (parent.data.attributedTo === account.id) {
+    return account.acct;
+  }
+
+  const author = await buildActivityPubAccount(parent.data.attributedTo, platform);
+  return author.acct || undefined;
+}
+
+/**
+ * Find the URL of a quoted object: Misskey/Pleroma properties first, then FEP-e232 object links
+ */
+function extractActivityPubQuoteUrl(activityPubData: ActivityPubNote): string | null {
+  const directUrl = activityPubData.quoteUrl || activityPubData.quoteUri || activityPubData._misskey_quote || activityPubData.quote;
+  if (typeof directUrl === 'string') {
+    return directUrl;
+  }
+
+  const quoteLink = activityPubData.tag.find(tag =>
+    tag.type === 'Link' &&
+    typeof tag.href === 'string' &&
+    (tag.mediaType === 'application/activity+json' ||
+      (typeof tag.mediaType === 'string' && tag.mediaType.startsWith('application/ld+json') && tag.mediaType.includes('https://www.w3.org/ns/activitystreams')))
+  );
+
+  return quoteLink?.href || null;
+}
+
 /**
  * Convert ActivityPub format to our universal Fediverse format
+ * Quoted objects are fetched and converted one level deep; so is the parent of a reply, for its author
  */
-export async function convertActivityPubToUniversal(activityPubData: any, platform: string): Promise<any> {
+export async function convertActivityPubToUniversal(data: unknown, platform: string, includeQuote = true, resolveReplyAccount = true): Promise<FediversePost> {
+  const activityPubData = parseUpstream(ActivityPubNoteSchema, data, 'ActivityPub object');
+
   try {
     // Extract basic information
     const id = activityPubData.id;
     const content = activityPubData.content || activityPubData.summary || '';
     const createdAt = activityPubData.published || new Date().toISOString();
-    const updatedAt = activityPubData.updated;
+    const updatedAt = activityPubData.updated || undefined;
 
     // Handle account/actor information
-    let account;
-    if (activityPubData.attributedTo) {
-      if (typeof activityPubData.attributedTo === 'string') {
-        // Fetch user object to get complete information including avatar
-        const userObject = await fetchUserObject(activityPubData.attributedTo);
-
-        if (userObject) {
-          // Extract emojis from user's tag array
-          const userEmojis = userObject.tag?.filter((tag: any) => tag.type === 'Emoji').map((emoji: any) => ({
-            shortcode: emoji.name?.replace(/:/g, '') || emoji.shortcode,
-            url: emoji.icon?.url || emoji.url,
-            staticUrl: emoji.icon?.url || emoji.url,
-          })) || [];
-
-          // Try multiple fields for avatar from fetched user object
-          const avatarUrl = userObject.icon?.url ||
-                           userObject.icon?.href ||
-                           userObject.image?.url ||
-                           userObject.image?.href;
-
-          
-
-          const domain = new URL(activityPubData.attributedTo).hostname;
-          account = {
-            id: userObject.id,
-            username: userObject.preferredUsername || activityPubData.attributedTo.split('/').pop(),
-            displayName: userObject.name || userObject.preferredUsername || activityPubData.attributedTo.split('/').pop(),
-            avatar: avatarUrl,
-            url: userObject.url || userObject.id,
-            acct: userObject.preferredUsername ? `${userObject.preferredUsername}@${domain}` : `${userObject.preferredUsername || activityPubData.attributedTo.split('/').pop()}@${domain}`,
-            platform,
-            emojis: userEmojis,
-          };
-        } else {
-          // Fallback if user object fetch fails
-          const username = activityPubData.attributedTo.split('/').pop();
-          const domain = new URL(activityPubData.attributedTo).hostname;
-          account = {
-            id: activityPubData.attributedTo,
-            username: username,
-            displayName: username,
-            avatar: undefined, // No avatar available
-            url: activityPubData.attributedTo,
-            acct: `${username}@${domain}`,
-            platform,
-            emojis: [],
-          };
-        }
-      } else {
-        // Extract emojis from actor's tag array
-        const actorEmojis = activityPubData.attributedTo.tag?.filter((tag: any) => tag.type === 'Emoji').map((emoji: any) => ({
-          shortcode: emoji.name?.replace(/:/g, '') || emoji.shortcode,
-          url: emoji.icon?.url || emoji.url,
-          staticUrl: emoji.icon?.url || emoji.url,
-        })) || [];
-
-        // Try multiple fields for avatar
-        const avatarUrl = activityPubData.attributedTo.icon?.url ||
-                         activityPubData.attributedTo.icon?.href ||
-                         activityPubData.attributedTo.image?.url ||
-                         activityPubData.attributedTo.image?.href;
-
-        // Get domain from attributedTo ID
-        const actorDomain = new URL(activityPubData.attributedTo.id || '').hostname || 'unknown';
-
-        account = {
-          id: activityPubData.attributedTo.id,
-          username: activityPubData.attributedTo.preferredUsername,
-          displayName: activityPubData.attributedTo.name || activityPubData.attributedTo.preferredUsername,
-          avatar: avatarUrl,
-          url: activityPubData.attributedTo.url || activityPubData.attributedTo.id,
-          acct: activityPubData.attributedTo.preferredUsername ? `${activityPubData.attributedTo.preferredUsername}@${actorDomain}` : `${activityPubData.attributedTo.preferredUsername || activityPubData.attributedTo.id?.split('/').pop() || 'unknown'}@${actorDomain}`,
-          platform,
-          emojis: actorEmojis,
-        };
-      }
-    } else {
-      // Fallback account info
-      account = {
-        id: 'unknown',
-        username: 'unknown',
-        displayName: 'Unknown User',
-        url: '',
-        acct: '',
-        platform,
-        emojis: [],
-      };
-    }
+    const account = await buildActivityPubAccount(activityPubData.attributedTo, platform);
 
     // Extract emojis from post content's tag array
-    const contentEmojis = activityPubData.tag?.filter((tag: any) => tag.type === 'Emoji').map((emoji: any) => ({
-      shortcode: emoji.name?.replace(/:/g, '') || emoji.shortcode,
-      url: emoji.icon?.url || emoji.url,
-      staticUrl: emoji.icon?.url || emoji.url,
-    })) || [];
+    const contentEmojis = extractActivityPubEmojis(activityPubData.tag);
 
     // Merge account and content emojis, removing duplicates
     const allEmojis = [...account.emojis];
-    contentEmojis.forEach((emoji: any) => {
-      if (!allEmojis.find((e: any) => e.shortcode === emoji.shortcode)) {
+    contentEmojis.forEach(emoji => {
+      if (!allEmojis.find(e => e.shortcode === emoji.shortcode)) {
         allEmojis.push(emoji);
       }
     });
@@ -423,29 +1069,29 @@ export async function convertActivityPubToUniversal(activityPubData: any, platfo
     // Handle attachments
     // Removed detailed debug output
 
-    const attachments = activityPubData.attachment?.map((att: any) => {
+    const postImageUrl = extractActivityPubUrl(activityPubData.image);
+
+    const attachments: FediverseAttachment[] = activityPubData.attachment.map(att => {
       let attachmentType = att.type.toLowerCase();
-      let attachmentUrl = att.url;
-      let previewUrl = undefined;
-
-      // Handle different URL formats
-      if (typeof attachmentUrl === 'object' && attachmentUrl !== null) {
-        // URL can be an array or object with href
-        if (Array.isArray(attachmentUrl)) {
-          // Find the main media URL and preview URL
-          const videoUrl = attachmentUrl.find((u: any) => u.mediaType?.startsWith('video/'))?.href;
-          const imageUrl = attachmentUrl.find((u: any) => u.mediaType?.startsWith('image/'))?.href;
-
-          attachmentUrl = videoUrl || imageUrl || attachmentUrl[0]?.href || attachmentUrl[0];
-          previewUrl = imageUrl; // Use image as preview if available
-        } else if (attachmentUrl.href) {
-          attachmentUrl = attachmentUrl.href;
-        }
+      let attachmentUrl: string | undefined;
+      let previewUrl: string | undefined;
+
+      // Handle different URL formats: a string, a Link with href, or a list of Links
+      const links = Array.isArray(att.url) ? att.url.filter((link): link is ActivityPubLink => typeof link !== 'string') : [];
+      if (Array.isArray(att.url)) {
+        // Find the main media URL and preview URL
+        const videoUrl = links.find(link => link.mediaType?.startsWith('video/'))?.href || undefined;
+        const imageUrl = links.find(link => link.mediaType?.startsWith('image/'))?.href || undefined;
+
+        attachmentUrl = videoUrl || imageUrl || extractActivityPubUrl(att.url[0]);
+        previewUrl = imageUrl; // Use image as preview if available
+      } else {
+        attachmentUrl = typeof att.url === 'string' ? att.url : att.url?.href || undefined;
       }
 
       // Normalize attachment type - detect video by URL extension or mediaType
       if (attachmentType === 'document' || attachmentType === 'unknown') {
-        const urlString = (typeof attachmentUrl === 'string' ? attachmentUrl : '').toLowerCase();
+        const urlString = (attachmentUrl || '').toLowerCase();
         if (urlString.match(/\.(mp4|webm|mov|avi|mkv|flv|wmv)$/)) {
           attachmentType = 'video';
         }
@@ -454,27 +1100,21 @@ export async function convertActivityPubToUniversal(activityPubData: any, platfo
       // For videos, try to find preview/thumbnail
       if (attachmentType === 'video') {
         // Try various preview fields
-        previewUrl = previewUrl || att.preview?.url || att.thumbnail?.url || att.image?.url;
+        previewUrl = previewUrl || extractActivityPubUrl(att.preview) || extractActivityPubUrl(att.thumbnail) || extractActivityPubUrl(att.image);
 
         // If url is an array, look for image type
-        if (Array.isArray(att.url)) {
-          const preview = att.url.find((u: any) => u.mediaType?.startsWith('image/'));
-          if (preview) {
-            previewUrl = preview.href || preview.url || preview;
-          }
+        const preview = links.find(link => link.mediaType?.startsWith('image/'));
+        if (preview) {
+          previewUrl = preview.href || extractActivityPubUrl(preview.url) || previewUrl;
         }
 
         // If still no preview, try to extract from post's image field
-        if (!previewUrl && activityPubData.image) {
-          if (typeof activityPubData.image === 'string') {
-            previewUrl = activityPubData.image;
-          } else if (activityPubData.image.url) {
-            previewUrl = activityPubData.image.url;
-          }
+        if (!previewUrl && postImageUrl) {
+          previewUrl = postImageUrl;
         }
 
         // If still no preview, derive from video URL
-        if (!previewUrl && attachmentUrl && typeof attachmentUrl === 'string') {
+        if (!previewUrl && attachmentUrl) {
           // Pixelfed pattern: video.mp4 -> video_thumb.jpeg
           previewUrl = attachmentUrl.replace(/\.mp4$/i, '_thumb.jpeg');
           
@@ -484,48 +1124,50 @@ export async function convertActivityPubToUniversal(activityPubData: any, platfo
       
 
       return {
-        type: attachmentType,
-        url: attachmentUrl,
+        type: normalizeAttachmentType(attachmentType),
+        url: attachmentUrl || '',
         previewUrl: previewUrl,
-        description: att.name,
-        width: att.width,
-        height: att.height,
+        description: att.name || undefined,
+        width: att.width ?? undefined,
+        height: att.height ?? undefined,
       };
-    }) || [];
+    });
 
     // Handle replies
     let repliesCount = 0;
     if (activityPubData.replies && typeof activityPubData.replies === 'object') {
-      repliesCount = activityPubData.replies.totalItems || 0;
+      repliesCount = (activityPubData.replies as { totalItems?: number }).totalItems || 0;
     }
 
     // Handle tags
-    const tags = activityPubData.tag?.filter((tag: any) => tag.type === 'Hashtag' || tag.type === 'Mention').map((tag: any) => ({
+    const tags = activityPubData.tag.filter(tag => tag.type === 'Hashtag' || tag.type === 'Mention').map(tag => ({
       name: tag.name ? (tag.name.startsWith('#') ? tag.name : `#${tag.name}`) : '',
-      url: tag.href || tag.url || '',
+      url: tag.href || extractActivityPubUrl(tag.url) || '',
       type: tag.type === 'Mention' ? 'mention' as const : 'hashtag' as const,
-    })).filter((tag: any) => tag.name && tag.url) || [];
+    })).filter(tag => tag.name && tag.url);
 
     
 
     // Handle poll data (if present) - ActivityPub doesn't have a strict standard for polls
     // This handles common Mastodon/Pleroma ActivityPub poll formats
-    let poll = undefined;
+    let poll: FediversePoll | undefined = undefined;
 
     // Check if it's a Create activity wrapping a Note with poll
-    const wrappedObject = activityPubData.object?.type === 'Note' ? activityPubData.object : activityPubData;
+    const wrappedObject = typeof activityPubData.object === 'object' && activityPubData.object?.type === 'Note' ? activityPubData.object : activityPubData;
 
     // Look for poll data in different formats
-    const pollData = wrappedObject.poll || wrappedObject.question;
+    const parsedPoll = ActivityPubPollSchema.safeParse(wrappedObject.poll || wrappedObject.question);
+    const pollData = parsedPoll.success ? parsedPoll.data : null;
+    const toCount = (value: number | string | null | undefined) => parseInt(String(value || '0'), 10) || 0;
 
     if (pollData) {
       // Check for options in different formats
-      const options = pollData.options?.map((option: any) => {
+      const options = pollData.options?.map(option => {
         // Handle both ActivityStreams 1.0 and 2.0 formats
         const optionTitle = option.content || option.name || option.title || '';
         return {
           title: optionTitle.replace(/<[^>]+>/g, '').trim(), // Strip HTML tags
-          votes_count: parseInt(option.votesCount || option.count || '0', 10),
+          votes_count: toCount(option.votesCount || option.count),
           url: option.url || '',
         };
       }) || [];
@@ -537,16 +1179,43 @@ export async function convertActivityPubToUniversal(activityPubData: any, platfo
           options,
           expired: !!pollData.expired,
           expires_at: pollData.expiresAt || pollData.expiredAt || '',
-          multiple: pollData.closed || false,
-          votes_count: parseInt(pollData.votesCount || pollData.totalVotes || '0', 10),
-          voters_count: parseInt(pollData.votersCount || pollData.participantsCount || '0', 10),
+          multiple: !!pollData.closed,
+          votes_count: toCount(pollData.votesCount || pollData.totalVotes),
+          voters_count: toCount(pollData.votersCount || pollData.participantsCount),
           voted: !!pollData.voted,
           own_votes: pollData.ownVotes || pollData.votedOptions || [],
         };
       }
     }
 
-    return {
+    // Handle quoted posts; a quote that cannot be fetched is simply left out
+    let quote: FediversePost | undefined = undefined;
+    // BookWyrm's `quote` is the quoted book passage, not a post
+    const quoteUrl = includeQuote && activityPubData.type !== 'Quotation' ? extractActivityPubQuoteUrl(activityPubData) : null;
+    if (quoteUrl) {
+      const quotedData = await fetchActivityPubDocument(quoteUrl);
+      if (quotedData && quotedData.type !== 'Tombstone') {
+        quote = await convertActivityPubToUniversal(quotedData, new URL(quoteUrl).hostname, false).catch(() => undefined);
+      }
+    }
+
+    // Link aggregators (Lemmy, Mbin) publish posts as titled Pages in a community
+    const isPage = activityPubData.type === 'Page';
+    const community = isPage ? extractActivityPubCommunity(activityPubData.audience) : undefined;
+
+    // Blog posts (and Pages outside a community) are articles; their summary is an excerpt, not a content warning
+    const isArticle = activityPubData.type === 'Article' || (isPage && !community);
+
+    const event = extractActivityPubEvent(activityPubData);
+    const book = await resolveBookWyrmBook(activityPubData).catch(() => undefined);
+
+    const inReplyTo = typeof activityPubData.inReplyTo === 'string' ? activityPubData.inReplyTo : activityPubData.inReplyTo?.id;
+    // BookWyrm replies point at books, not posts
+    const inReplyToAccount = resolveReplyAccount && includeQuote && inReplyTo && !activityPubData.inReplyToBook
+      ? await resolveActivityPubReplyAccount(inReplyTo, account, platform).catch(() => undefined)
+      : undefined;
+
+    return sanitizePost({
       id,
       content,
       createdAt,
@@ -557,15 +1226,55 @@ export async function convertActivityPubToUniversal(activityPubData: any, platfo
       boostsCount: 0, // ActivityPub doesn't standardize boost counts
       favouritesCount: 0, // ActivityPub doesn't standardize like counts
       sensitive: activityPubData.sensitive || false,
-      spoilerText: activityPubData.summary || '',
-      url: activityPubData.url || id,
+      spoilerText: isArticle ? '' : activityPubData.summary || '',
+      url: extractActivityPubUrl(activityPubData.url) || id,
       platform,
-      inReplyTo: activityPubData.inReplyTo,
+      inReplyTo,
+      inReplyToAccount,
+      // contentMap is keyed by the language of the content
+      language: Object.keys(activityPubData.contentMap || {})[0] || undefined,
+      visibility: extractActivityPubVisibility(activityPubData),
       tags,
       poll,
-    };
+      quote,
+      // Review titles are shown like article titles; Friendica and Hubzilla give titled posts a name too
+      title: isPage || isArticle || event || book?.kind === 'review' || activityPubData.type === 'Note' ? activityPubData.name || undefined : undefined,
+      community,
+      linkUrl: isPage ? activityPubData.attachment.find(att => att.type === 'Link')?.href || undefined : undefined,
+      article: isArticle
+        ? createArticleInfo(content, activityPubData.summary || undefined, postImageUrl || attachments.find(att => att.type === 'image')?.url)
+        : undefined,
+      event,
+      book,
+    });
   } catch (error) {
     console.error('Error converting ActivityPub to universal format:', error);
     throw new Error('Failed to convert ActivityPub data to universal format');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert an ActivityPub Announce (boost) to our universal format
+ * The announced object must already be converted; it is attached as `reblog`
+ */
+export async function convertAnnounceToUniversal(data: unknown, original: FediversePost, platform: string): Promise<FediversePost> {
+  const announceData = parseUpstream(ActivityPubAnnounceSchema, data, 'ActivityPub Announce');
+  const account = await buildActivityPubAccount(announceData.actor, platform);
+
+  return sanitizePost({
+    id: announceData.id,
+    content: '',
+    createdAt: announceData.published || original.createdAt,
+    account,
+    attachments: [],
+    repliesCount: 0,
+    boostsCount: 0,
+    favouritesCount: 0,
+    sensitive: false,
+    spoilerText: '',
+    url: extractActivityPubUrl(announceData.url) || announceData.id,
+    platform,
+    tags: [],
+    reblog: original,
+  });
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FediverseClient } from './fediverseClient';
+
+const INTERNAL_NOTE = { type: 'Note', id: 'http://127.0.0.1/secret', content: 'internal', attributedTo: 'http://127.0.0.1/actor' };
+
+/**
+ * Stub fetch for a server without NodeInfo that answers every object URL with `activity`
+ * @returns URLs that were requested
+ */
+function stubRemoteServer(activity: Record<string, unknown>): string[] {
+  const requested: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+    const url = String(input instanceof Request ? input.url : input);
+    requested.push(url);
+
+    if (new URL(url).hostname === '127.0.0.1') {
+      return new Response(JSON.stringify(INTERNAL_NOTE), { headers: { 'Content-Type': 'application/activity+json' } });
+    }
+    if (url.includes('/.well-known/')) {
+      return new Response(null, { status: 404 });
+    }
+    return new Response(JSON.stringify(activity), { headers: { 'Content-Type': 'application/activity+json' } });
+  }));
+  return requested;
+}
+
+describe('FediverseClient ActivityPub objects', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['Announce', 'https://boost.example/statuses/announce-1'],
+    ['Create', 'https://create.example/statuses/create-1'],
+  ])('does not follow %s objects pointing at an internal host', async (type, url) => {
+    const requested = stubRemoteServer({ type, id: url, actor: `${new URL(url).origin}/users/bob`, object: 'http://127.0.0.1/' });
+
+    const result = await FediverseClient.fetchPost(url);
+
+    expect(result.success).toBe(false);
+    expect(result.data?.content).toBeUndefined();
+    expect(requested.some(requestedUrl => new URL(requestedUrl).hostname === '127.0.0.1')).toBe(false);
+  });
+
+  it('does not follow an alternate link pointing at an internal host', async () => {
+    const requested: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = String(input instanceof Request ? input.url : input);
+      requested.push(url);
+      return url.includes('/.well-known/')
+        ? new Response(null, { status: 404 })
+        : new Response('<html><head><link rel="alternate" type="application/activity+json" href="http://10.0.0.1/item/1"></head></html>', { headers: { 'Content-Type': 'text/html' } });
+    }));
+
+    const result = await FediverseClient.fetchPost('https://hub.example/item/0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0');
+
+    expect(result.success).toBe(false);
+    expect(requested.some(requestedUrl => new URL(requestedUrl).hostname === '10.0.0.1')).toBe(false);
+  });
+});
@@ -1,7 +1,15 @@
-import { parseFediverseUrl, convertMastodonToUniversal, convertActivityPubToUniversal } from './activitypubParser';
-import type { FediversePost, FediverseAccount } from '../types/activitypub';
+import { parseFediverseUrl, convertMastodonToUniversal, convertActivityPubToUniversal, convertMisskeyToUniversal, convertAnnounceToUniversal, convertMisskeyUrlPreviewToCard, convertLemmyPostToUniversal, convertLemmyCommentToUniversal, convertFunkwhaleTrackToUniversal, convertMastodonHistoryToRevisions, convertActorToAccount, createArticleInfo } from './activitypubParser';
+import type { ParsedUrl } from './activitypubParser';
+import type { JsonLdObject } from '../types/schemas';
+import type { FediversePost, FediverseAccount, FediverseRevision, FediverseThread, FediverseLinkCard, FediverseSoftware } from '../types/activitypub';
 import { SUPPORTED_PLATFORMS, PlatformConfig } from '../types/activitypub';
 import { LRUCache } from './apiCache';
+import { sanitizeAccount, sanitizePost } from './htmlSanitizer';
+import { renderMarkdown } from './markdownRenderer';
+import { signedFetch } from './httpSignature';
+import { isPublicUrl } from './hostValidator';
+import { isAccountUrl, normalizePostUrl, parseBareStatusUrl } from './urlNormalizer';
+import { ActivityPubActorSchema, JsonLdDocumentSchema, JsonLdObjectSchema, MastodonContextSchema, MisskeyEmojiListSchema, MisskeyNoteListSchema, NodeInfoDiscoverySchema, NodeInfoSchema, PeerTubeVideoSchema, UpstreamParseError, WebFingerSchema, parseUpstream } from '../types/schemas';
 
 export interface FetchPostResult {
   success: boolean;
@@ -10,8 +18,41 @@ export interface FetchPostResult {
   errorCode?: string;
   platform?: string;
   suggestion?: string;
+  thread?: FediverseThread;
+  history?: FediverseRevision[]; // Edit history, oldest first, when requested and the post was edited
+  software?: FediverseSoftware; // Server software detected via NodeInfo
+  instance?: string; // Instance the post was read from (the resolving instance after resolveVia); IDs and local accts belong to it
 }
 
+export interface ThreadOptions {
+  depth: number; // Maximum number of ancestors (and self-replies) to include
+  includeSelfReplies: boolean;
+}
+
+export interface ResolveViaOptions {
+  instance: string; // Home instance domain with a Mastodon-compatible search API
+  token?: string; // Access token for instances that only resolve for logged-in users
+}
+
+export interface AuthOptions {
+  instance: string; // Instance that issued the token
+  token: string; // OAuth access token of the logged-in user
+}
+
+export interface FetchPostOptions {
+  useOriginalPostData?: boolean; // Unwrap boosts/renotes to the original post
+  thread?: ThreadOptions; // Fetch reply context when set
+  resolveVia?: ResolveViaOptions; // Last resort: resolve the URL through this instance's search API
+  auth?: AuthOptions; // Lets followers-only and private posts on the user's own instance render
+  history?: boolean; // Fetch the edit history of edited posts
+}
+
+// Mastodon-compatible search that makes the instance fetch remote posts (used for "resolve via instance")
+const RESOLVE_SEARCH_ENDPOINT = { path: '/api/v2/search?type=statuses&resolve=true&limit=1&q={id}', method: 'GET' } as const;
+
+// Blog platforms whose posts are fetched by URL over ActivityPub and rendered as articles
+const BLOG_PLATFORMS = ['writefreely', 'plume', 'ghost'];
+
 export enum ErrorCode {
   INVALID_URL = 'INVALID_URL',
   UNSUPPORTED_PLATFORM = 'UNSUPPORTED_PLATFORM',
@@ -29,15 +70,19 @@ export enum ErrorCode {
  */
 export class FediverseClient {
   private static postCache = new LRUCache<FetchPostResult>(100, 30);
+  // NodeInfo lookups per domain; null means the server doesn't publish NodeInfo
+  private static softwareCache = new LRUCache<{ software: FediverseSoftware | null }>(500, 6 * 60);
 
   /**
    * Universal API request method supporting different HTTP methods and platform configurations
+   * @param accessToken - OAuth token of the logged-in user; only pass it to the instance that issued it
    */
   private static async makeApiRequest(
     domain: string,
     endpoint: { path: string; method: 'GET' | 'POST' },
     data?: any,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    accessToken?: string
   ): Promise<Response> {
     let url = `https://${domain}${endpoint.path}`;
 
@@ -51,6 +96,10 @@ export class FediverseClient {
       'Accept': 'application/json, application/activity+json',
     };
 
+    if (accessToken) {
+      defaultHeaders['Authorization'] = `Bearer ${accessToken}`;
+    }
+
     const requestConfig: RequestInit = {
       method: endpoint.method,
       headers: { ...defaultHeaders, ...headers },
@@ -65,15 +114,37 @@ export class FediverseClient {
     return fetch(url, requestConfig);
   }
 
+  /**
+   * Status endpoint of a platform with an API; platforms only read through ActivityPub have none
+   */
+  private static statusEndpoint(platformConfig: PlatformConfig): { path: string; method: 'GET' | 'POST' } {
+    if (!platformConfig.apiEndpoints) {
+      throw new Error(`${platformConfig.name} has no API endpoints`);
+    }
+    return platformConfig.apiEndpoints.status;
+  }
+
   /**
    * Fetch a post from any Fediverse platform
    * Fetch post with cache support to reduce duplicate requests
    */
-  static async fetchPost(url: string): Promise<FetchPostResult> {
-    const cached = this.postCache.get(url);
+  static async fetchPost(url: string, options: FetchPostOptions = {}): Promise<FetchPostResult> {
+    // Handles, ap:// links, share links and web UI routes all map to the plain post URL
+    if (typeof url === 'string') {
+      url = await this.normalizeInput(url, options);
+    }
+
+    // Thread and history results depend on their options, so they are cached separately
+    const cacheKey = [
+      url,
+      options.thread ? `#thread:${options.thread.depth}:${options.thread.includeSelfReplies ? 1 : 0}` : '',
+      options.history ? '#history' : '',
+    ].join('');
+
+    const cached = this.postCache.get(cacheKey);
     if (cached) {
       console.log(`[FediverseClient] Cache hit: ${url.substring(0, 50)}...`);
-      return cached;
+      return this.applyFetchOptions(cached, options);
     }
 
     console.log(`[FediverseClient] Cache miss, fetching: ${url.substring(0, 50)}...`);
@@ -127,15 +198,43 @@ export class FediverseClient {
         }
       }
 
+      if (isAccountUrl(url)) {
+        return {
+          success: false,
+          error: 'This is a link to an account, not a post',
+          errorCode: ErrorCode.INVALID_URL,
+          suggestion: 'Open one of the account\'s posts and paste its link, or add the post ID to the handle (e.g. @username@mastodon.social/123456)',
+        };
+      }
+
       // Parse the URL to identify platform and extract post info
-      const parsed = parseFediverseUrl(url);
+      // Blog post URLs are free-form, so they are accepted when NodeInfo reports a blog platform
+      const parsed = parseFediverseUrl(url) || await this.parseBlogUrl(url);
       if (!parsed) {
-        return {
+        const unsupported: FetchPostResult = {
           success: false,
           error: 'Unsupported URL',
           errorCode: ErrorCode.UNSUPPORTED_PLATFORM,
           suggestion: 'Use direct post link from supported Fediverse platform (Mastodon, Pixelfed, PeerTube, etc.).',
         };
+
+        if (!options.resolveVia) {
+          return unsupported;
+        }
+
+        // The home instance may still know the post (odd URL shapes, servers we can't identify)
+        const resolved = await this.resolveViaInstance(url, options, unsupported);
+        return this.completeFetch(resolved, options.resolveVia.instance, cacheKey, options);
+      }
+
+      parsed.accessToken = this.accessTokenFor(parsed.domain, options);
+
+      // The URL pattern is only a hint; prefer the software the server reports via NodeInfo
+      const software = await this.detectSoftware(parsed.domain);
+      const detectedPlatform = this.resolvePlatform(software, parsed.platform);
+      if (detectedPlatform !== parsed.platform) {
+        console.log(`[FediverseClient] NodeInfo reports ${software?.name}, using ${detectedPlatform} instead of ${parsed.platform}`);
+        parsed.platform = detectedPlatform;
       }
 
       // Validate platform configuration exists
@@ -156,18 +255,45 @@ export class FediverseClient {
         case 'mastodon':
           result = await this.fetchMastodonPost(parsed);
           break;
+        case 'gotosocial':
+          result = await this.fetchGoToSocialPost(parsed);
+          break;
         case 'pleroma':
-          result = await this.fetchPleromaPost(parsed);
+        case 'akkoma':
+          result = await this.fetchPleromaPost(parsed, parsed.platform);
           break;
         case 'pixelfed':
           result = await this.fetchPixelfedPost(parsed);
           break;
         case 'misskey':
-          result = await this.fetchMisskeyPost(parsed);
+        case 'sharkey':
+        case 'firefish':
+        case 'iceshrimp':
+          result = await this.fetchMisskeyPost(parsed, parsed.platform);
           break;
         case 'peertube':
           result = await this.fetchPeerTubePost(parsed);
           break;
+        case 'lemmy':
+          result = await this.fetchLemmyPost(parsed);
+          break;
+        case 'funkwhale':
+          result = await this.fetchFunkwhalePost(parsed);
+          break;
+        case 'friendica':
+          result = await this.fetchFriendicaPost(parsed);
+          break;
+        case 'hubzilla':
+        case 'mobilizon':
+        case 'gancio':
+        case 'bookwyrm':
+          result = await this.fetchActivityPubPlatformPost(parsed);
+          break;
+        case 'writefreely':
+        case 'plume':
+        case 'ghost':
+          result = await this.fetchBlogPost(parsed);
+          break;
         case 'ech0':
           result = await this.fetchEch0Post(parsed);
           break;
@@ -200,16 +326,27 @@ export class FediverseClient {
           };
       }
 
-      // Only cache successful results
-      if (result.success) {
-        this.postCache.set(url, result);
-        console.log(`[FediverseClient] Result cached: ${url.substring(0, 50)}...`);
+      // Before giving up, let the home instance fetch the post (remote servers with authorized fetch, unknown software)
+      let resultDomain = parsed.domain;
+      if (!result.success && options.resolveVia) {
+        result = await this.resolveViaInstance(url, options, result);
+        if (result.success) {
+          resultDomain = options.resolveVia.instance;
+        }
       }
 
-      return result;
+      if (software) {
+        result.software = software;
+      }
+
+      return this.completeFetch(result, resultDomain, cacheKey, options);
     } catch (error) {
       console.error('Error fetching Fediverse post:', error);
 
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
+
       // Handle different types of errors
       if (error instanceof TypeError && error.message.includes('fetch')) {
         return {
@@ -261,10 +398,221 @@ export class FediverseClient {
     }
   }
 
+  /**
+   * Normalize pasted input to a post URL
+   * Bare /statuses/<id> routes (from /web/statuses/<id>) lack the author, so the instance's API fills it in
+   */
+  private static async normalizeInput(input: string, options: FetchPostOptions): Promise<string> {
+    const url = normalizePostUrl(input);
+    const bareStatus = parseBareStatusUrl(url);
+    if (!bareStatus) {
+      return url;
+    }
+
+    try {
+      const response = await this.makeApiRequest(
+        bareStatus.domain,
+        this.statusEndpoint(SUPPORTED_PLATFORMS.mastodon),
+        { id: bareStatus.id },
+        undefined,
+        this.accessTokenFor(bareStatus.domain, options)
+      );
+
+      if (response.ok) {
+        const status = await response.json();
+        if (typeof status?.account?.acct === 'string') {
+          // The local status ID works under the author's local handle, also for remote authors (@user@remote)
+          return `https://${bareStatus.domain}/@${status.account.acct}/${bareStatus.id}`;
+        }
+      }
+    } catch (error) {
+      console.warn(`[FediverseClient] Failed to look up status ${bareStatus.id} on ${bareStatus.domain}:`, error);
+    }
+
+    return url;
+  }
+
+  /**
+   * Attach the thread, cache the result and apply the fetch options
+   * @param domain - Instance the post was read from; thread lookups use the same API
+   */
+  private static async completeFetch(result: FetchPostResult, domain: string, cacheKey: string, options: FetchPostOptions): Promise<FetchPostResult> {
+    if (result.success) {
+      result.instance = domain;
+    }
+
+    if (result.success && options.thread) {
+      result.thread = await this.fetchThread(domain, result, options.thread, this.accessTokenFor(domain, options));
+    }
+
+    if (result.success && options.history) {
+      result.history = await this.fetchEditHistory(domain, result, this.accessTokenFor(domain, options));
+    }
+
+    // Only cache successful results; anything read with a user's token stays out of the shared cache
+    if (result.success && !options.auth && !options.resolveVia?.token) {
+      this.postCache.set(cacheKey, result);
+      console.log(`[FediverseClient] Result cached: ${cacheKey.substring(0, 50)}...`);
+    }
+
+    return this.applyFetchOptions(result, options);
+  }
+
+  /**
+   * Token to send to `domain`: the login token or the "resolve via" token, but only to the instance it belongs to
+   */
+  private static accessTokenFor(domain: string, options: FetchPostOptions): string | undefined {
+    if (options.auth && options.auth.instance === domain) {
+      return options.auth.token;
+    }
+    if (options.resolveVia?.token && options.resolveVia.instance === domain) {
+      return options.resolveVia.token;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve a post URL through a home instance's search API (`/api/v2/search?resolve=true`)
+   * The instance fetches the post itself, which also works for servers that refuse unsigned requests
+   * @param failure - Result returned when the instance can't resolve the URL either
+   */
+  private static async resolveViaInstance(url: string, options: FetchPostOptions, failure: FetchPostResult): Promise<FetchPostResult> {
+    const resolveVia = options.resolveVia!;
+    console.log(`[FediverseClient] Resolving via ${resolveVia.instance}: ${url.substring(0, 50)}...`);
+
+    try {
+      const response = await this.makeApiRequest(
+        resolveVia.instance,
+        RESOLVE_SEARCH_ENDPOINT,
+        { id: encodeURIComponent(url) },
+        undefined,
+        this.accessTokenFor(resolveVia.instance, options)
+      );
+
+      if (!response.ok) {
+        console.warn(`[FediverseClient] ${resolveVia.instance} search failed: ${response.status} ${response.statusText}`);
+        return failure;
+      }
+
+      const searchResult = await response.json();
+      const status = searchResult?.statuses?.[0];
+      if (!status) {
+        return failure;
+      }
+
+      return {
+        success: true,
+        data: convertMastodonToUniversal(status),
+        platform: 'mastodon',
+      };
+    } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
+      console.warn(`[FediverseClient] Resolving via ${resolveVia.instance} failed:`, error);
+      return failure;
+    }
+  }
+
+  /**
+   * Apply per-request options to a (possibly cached) fetch result
+   * Cached results always keep the boost wrapper so both toggle states can be served
+   */
+  private static applyFetchOptions(result: FetchPostResult, options: FetchPostOptions): FetchPostResult {
+    const { useOriginalPostData = true } = options;
+
+    if (useOriginalPostData && result.success && result.data?.reblog) {
+      return { ...result, data: result.data.reblog };
+    }
+
+    return result;
+  }
+
+  /**
+   * Detect the server software of a domain via NodeInfo, cached per domain
+   * Returns null when the server doesn't publish (valid) NodeInfo
+   */
+  private static async detectSoftware(domain: string): Promise<FediverseSoftware | null> {
+    const cached = this.softwareCache.get(domain);
+    if (cached) {
+      return cached.software;
+    }
+
+    let software: FediverseSoftware | null = null;
+
+    try {
+      const discoveryResponse = await this.makeApiRequest(domain, { path: '/.well-known/nodeinfo', method: 'GET' });
+
+      if (discoveryResponse.ok) {
+        const discovery = parseUpstream(NodeInfoDiscoverySchema, await discoveryResponse.json(), 'NodeInfo discovery');
+
+        // Prefer the newest schema version; only follow links on the same host
+        const nodeInfoUrl = discovery.links
+          .filter(link => /^https?:\/\/nodeinfo\.diaspora\.software\/ns\/schema\/\d+(\.\d+)*$/.test(link.rel))
+          .sort((a, b) => b.rel.localeCompare(a.rel, undefined, { numeric: true }))
+          .map(link => new URL(link.href, `https://${domain}`))
+          .find(url => url.hostname === domain);
+
+        if (nodeInfoUrl) {
+          const response = await this.makeApiRequest(domain, { path: `${nodeInfoUrl.pathname}${nodeInfoUrl.search}`, method: 'GET' });
+
+          if (response.ok) {
+            const nodeInfo = parseUpstream(NodeInfoSchema, await response.json(), 'NodeInfo');
+            software = {
+              name: nodeInfo.software.name.toLowerCase(),
+              version: nodeInfo.software.version || undefined,
+            };
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`NodeInfo detection failed for ${domain}:`, error);
+    }
+
+    this.softwareCache.set(domain, { software });
+    return software;
+  }
+
+  /**
+   * Pick the platform whose API serves the detected software, falling back to the URL pattern hint
+   */
+  private static resolvePlatform(software: FediverseSoftware | null, hint: string): string {
+    if (software) {
+      const match = Object.entries(SUPPORTED_PLATFORMS).find(([, config]) => config.software?.includes(software.name));
+      if (match) {
+        return match[0];
+      }
+    }
+
+    return hint;
+  }
+
+  /**
+   * Accept a free-form URL when its server runs a blog platform
+   */
+  private static async parseBlogUrl(url: string): Promise<ParsedUrl | null> {
+    const domain = new URL(url).hostname;
+    const platform = this.resolvePlatform(await this.detectSoftware(domain), '');
+
+    return BLOG_PLATFORMS.includes(platform) ? { platform, domain, id: url, originalUrl: url } : null;
+  }
+
+  /**
+   * Build the failure result for an upstream response that didn't match its schema
+   */
+  private static parseErrorResult(error: UpstreamParseError): FetchPostResult {
+    return {
+      success: false,
+      error: error.message,
+      errorCode: ErrorCode.PARSE_ERROR,
+      suggestion: 'The server returned data in an unexpected format. It may run an unsupported version of its software.',
+    };
+  }
+
   /**
    * Fetch post from Mastodon-compatible API
    */
-  private static async fetchMastodonPost(parsed: any): Promise<FetchPostResult> {
+  private static async fetchMastodonPost(parsed: ParsedUrl): Promise<FetchPostResult> {
     try {
       // Get platform configuration
       const platformConfig = SUPPORTED_PLATFORMS.mastodon;
@@ -272,16 +620,21 @@ export class FediverseClient {
       // Make API request using the new universal method
       const response = await this.makeApiRequest(
         parsed.domain,
-        platformConfig.apiEndpoints.status,
-        { id: parsed.id }
+        this.statusEndpoint(platformConfig),
+        { id: parsed.id },
+        undefined,
+        parsed.accessToken
       );
 
+      // Mastodon answers 404 for posts the requester isn't allowed to see
       if (response.status === 404) {
         return {
           success: false,
           error: 'Post not found or deleted',
           errorCode: ErrorCode.NOT_FOUND,
-          suggestion: 'Check that the post URL is correct and the post still exists',
+          suggestion: parsed.accessToken
+            ? 'Check that the post URL is correct, the post still exists and your account can see it'
+            : `Check that the post URL is correct and the post still exists. For followers-only posts, log in to ${parsed.domain} under Options.`,
         };
       }
 
@@ -290,7 +643,9 @@ export class FediverseClient {
           success: false,
           error: 'This post is private or requires authentication',
           errorCode: ErrorCode.PRIVATE_POST,
-          suggestion: 'Only public posts can be converted to images',
+          suggestion: parsed.accessToken
+            ? 'Your account does not have access to this post'
+            : `Log in to ${parsed.domain} under Options to render followers-only and private posts your account can see`,
         };
       }
 
@@ -327,23 +682,89 @@ export class FediverseClient {
         platform: 'mastodon',
       };
     } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
       // If Mastodon API fails, try ActivityPub
       return await this.fetchActivityPubObject(parsed.domain, parsed.id);
     }
   }
 
   /**
-   * Fetch post from Pleroma instance
+   * Fetch post from GoToSocial instance
+   * The client API usually requires a token, so the ActivityPub status is the fallback
+   */
+  private static async fetchGoToSocialPost(parsed: ParsedUrl): Promise<FetchPostResult> {
+    try {
+      const platformConfig = SUPPORTED_PLATFORMS.gotosocial;
+
+      const response = await this.makeApiRequest(
+        parsed.domain,
+        this.statusEndpoint(platformConfig),
+        { id: parsed.id },
+        undefined,
+        parsed.accessToken
+      );
+
+      if (response.ok) {
+        return {
+          success: true,
+          data: convertMastodonToUniversal(await response.json(), 'gotosocial'),
+          platform: 'gotosocial',
+        };
+      }
+
+      if (response.status === 404) {
+        return {
+          success: false,
+          error: 'Post not found or deleted',
+          errorCode: ErrorCode.NOT_FOUND,
+          suggestion: 'Check that the post URL is correct and the post still exists',
+        };
+      }
+
+      // Web URLs (/@user/statuses/ID) and ActivityPub IDs (/users/user/statuses/ID) differ
+      const objectUrl = parsed.username
+        ? `https://${parsed.domain}/users/${parsed.username.replace(/^@/, '')}/statuses/${parsed.id}`
+        : parsed.id;
+      const result = await this.fetchActivityPubObject(parsed.domain, objectUrl);
+
+      if (result.success && result.data) {
+        result.data.platform = 'gotosocial';
+        result.data.account.platform = 'gotosocial';
+        result.platform = 'gotosocial';
+      } else if (response.status === 401 || response.status === 403) {
+        return {
+          success: false,
+          error: 'This GoToSocial instance does not allow unauthenticated access to posts',
+          errorCode: ErrorCode.PRIVATE_POST,
+          suggestion: 'GoToSocial instances often require signed requests even for public posts. Try the same post from the instance of someone who boosted it.',
+        };
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
+      return await this.fetchActivityPubObject(parsed.domain, parsed.id);
+    }
+  }
+
+  /**
+   * Fetch post from Pleroma or Akkoma instance
    */
-  private static async fetchPleromaPost(parsed: any): Promise<FetchPostResult> {
+  private static async fetchPleromaPost(parsed: ParsedUrl, platform = 'pleroma'): Promise<FetchPostResult> {
     try {
       // Pleroma uses Mastodon-compatible API
-      const platformConfig = SUPPORTED_PLATFORMS.pleroma;
+      const platformConfig = SUPPORTED_PLATFORMS[platform];
 
       const response = await this.makeApiRequest(
         parsed.domain,
-        platformConfig.apiEndpoints.status,
-        { id: parsed.id }
+        this.statusEndpoint(platformConfig),
+        { id: parsed.id },
+        undefined,
+        parsed.accessToken
       );
 
       if (!response.ok) {
@@ -351,15 +772,17 @@ export class FediverseClient {
       }
 
       const pleromaData = await response.json();
-      const universalData = convertMastodonToUniversal(pleromaData);
-      universalData.platform = 'pleroma';
+      const universalData = convertMastodonToUniversal(pleromaData, platform);
 
       return {
         success: true,
         data: universalData,
-        platform: 'pleroma',
+        platform,
       };
     } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
       return await this.fetchActivityPubObject(parsed.domain, parsed.id);
     }
   }
@@ -367,7 +790,7 @@ export class FediverseClient {
   /**
    * Fetch post from Pixelfed instance
    */
-  private static async fetchPixelfedPost(parsed: any): Promise<FetchPostResult> {
+  private static async fetchPixelfedPost(parsed: ParsedUrl): Promise<FetchPostResult> {
     try {
       const platformConfig = SUPPORTED_PLATFORMS.pixelfed;
 
@@ -375,7 +798,9 @@ export class FediverseClient {
       let response = await this.makeApiRequest(
         parsed.domain,
         { path: '/api/v2/statuses/{id}', method: 'GET' },
-        { id: parsed.id }
+        { id: parsed.id },
+        undefined,
+        parsed.accessToken
       );
 
       if (!response.ok) {
@@ -383,7 +808,9 @@ export class FediverseClient {
         response = await this.makeApiRequest(
           parsed.domain,
           { path: '/api/v1/statuses/{id}', method: 'GET' },
-          { id: parsed.id }
+          { id: parsed.id },
+          undefined,
+          parsed.accessToken
         );
 
         if (!response.ok) {
@@ -408,6 +835,9 @@ export class FediverseClient {
         platform: 'pixelfed',
       };
     } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
       // Always try ActivityPub fallback for Pixelfed
       return await this.fetchPixelfedActivityPub(parsed);
     }
@@ -416,7 +846,7 @@ export class FediverseClient {
   /**
    * Fetch Pixelfed post via ActivityPub from the web page
    */
-  private static async fetchPixelfedActivityPub(parsed: any): Promise<FetchPostResult> {
+  private static async fetchPixelfedActivityPub(parsed: ParsedUrl): Promise<FetchPostResult> {
     try {
       // For Pixelfed, we need to try different approaches
       const possibleUrls = [
@@ -434,10 +864,8 @@ export class FediverseClient {
       for (const url of possibleUrls) {
         try {
           // First try to get as ActivityPub JSON
-          let response = await fetch(url, {
-            headers: {
-              'Accept': 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
-            },
+          let response = await signedFetch(url, {
+            'Accept': 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
           });
 
           if (response.ok) {
@@ -471,12 +899,12 @@ export class FediverseClient {
             const activityJsonMatch = text.match(/<script[^>]*type=["']application\/ld\+json["'][^>]*>(.*?)<\/script>/s);
             if (activityJsonMatch) {
               try {
-                const jsonData = JSON.parse(activityJsonMatch[1]);
-                if (jsonData.type === 'Note' || (jsonData['@graph'] && jsonData['@graph'].some((item: any) => item.type === 'Note'))) {
-                  activityPubData = jsonData['@graph'] ? jsonData['@graph'].find((item: any) => item.type === 'Note') : jsonData;
+                const note = this.findJsonLdNote(JSON.parse(activityJsonMatch[1]));
+                if (note) {
+                  activityPubData = note;
 
                   // Extract avatar from HTML meta tags if not in ActivityPub data
-                  if (!activityPubData.attributedTo?.icon?.url) {
+                  if (typeof activityPubData.attributedTo !== 'object' || !activityPubData.attributedTo?.icon) {
                     // Try multiple patterns to find the user avatar
                     const avatarPatterns = [
                       // Profile images in various formats
@@ -536,7 +964,7 @@ export class FediverseClient {
                   if (activityPubData.attachment) {
                     // Removed detailed debug output
 
-                    activityPubData.attachment = activityPubData.attachment.map((att: any) => {
+                    activityPubData.attachment = activityPubData.attachment.map(att => {
                       
 
                       // If attachment is a video and has no preview/thumbnail
@@ -637,6 +1065,9 @@ export class FediverseClient {
         platform: 'pixelfed',
       };
     } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
       console.error('Pixelfed ActivityPub fetch failed:', error);
       return {
         success: false,
@@ -648,16 +1079,16 @@ export class FediverseClient {
   }
 
   /**
-   * Fetch post from Misskey instance
+   * Fetch post from Misskey instance (or a fork sharing its API: Sharkey, Firefish, Iceshrimp)
    */
-  private static async fetchMisskeyPost(parsed: any): Promise<FetchPostResult> {
+  private static async fetchMisskeyPost(parsed: ParsedUrl, platform = 'misskey'): Promise<FetchPostResult> {
     try {
       // Misskey uses a unique API format, requiring POST requests and specific request body format
-      const platformConfig = SUPPORTED_PLATFORMS.misskey;
+      const platformConfig = SUPPORTED_PLATFORMS[platform];
 
       const response = await this.makeApiRequest(
         parsed.domain,
-        platformConfig.apiEndpoints.status,
+        this.statusEndpoint(platformConfig),
         { noteId: parsed.id }
       );
 
@@ -668,110 +1099,24 @@ export class FediverseClient {
       const misskeyData = await response.json();
 
       // Fetch instance emoji list to resolve custom emojis
-      // Misskey doesn't include emoji URLs in the note response
-      let instanceEmojis: Map<string, string> = new Map();
-      try {
-        
-        const emojiResponse = await fetch(`https://${parsed.domain}/api/emojis`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({}),
-        });
-
-        if (emojiResponse.ok) {
-          const emojiData = await emojiResponse.json();
-          if (emojiData.emojis && Array.isArray(emojiData.emojis)) {
-            emojiData.emojis.forEach((emoji: any) => {
-              instanceEmojis.set(emoji.name, emoji.url);
-            });
-            
-          }
-        }
-      } catch (emojiError) {
-        console.warn('Failed to fetch Misskey emoji list:', emojiError);
-      }
-
-      // Log Misskey data for debugging
-      
-      
-      
-      
-
-      // Extract emoji shortcodes from text and user name
-      const textToScan = `${misskeyData.text || ''} ${misskeyData.user?.name || ''}`;
-      const emojiPattern = /:([a-zA-Z0-9_]+):/g;
-      const foundEmojiNames = new Set<string>();
-      let match;
-
-      while ((match = emojiPattern.exec(textToScan)) !== null) {
-        foundEmojiNames.add(match[1]);
-      }
-
-      // Build emoji list from instance emojis
-      const allEmojis: any[] = [];
-
-      // For each emoji found in text, look it up in the instance emoji list
-      foundEmojiNames.forEach(emojiName => {
-        const emojiUrl = instanceEmojis.get(emojiName);
-        if (emojiUrl) {
-          allEmojis.push({
-            shortcode: emojiName,
-            url: emojiUrl,
-            staticUrl: emojiUrl,
-          });
-          
-        } else {
-          console.warn(`Emoji :${emojiName}: not found in instance emoji list`);
-        }
-      });
-
-      
+      const instanceEmojis = await this.fetchMisskeyEmojis(parsed.domain);
 
       // Convert Misskey format to our universal format
-      const universalData: FediversePost = {
-        id: misskeyData.id,
-        content: misskeyData.text || misskeyData.cw || '',
-        createdAt: misskeyData.createdAt,
-        updatedAt: misskeyData.updatedAt,
-        account: {
-          id: misskeyData.user.id,
-          username: misskeyData.user.username,
-          displayName: misskeyData.user.name || misskeyData.user.username,
-          avatar: misskeyData.user.avatarUrl,
-          url: misskeyData.user.url || `https://${parsed.domain}/@${misskeyData.user.username}`,
-          acct: `${misskeyData.user.username}@${parsed.domain}`,
-          platform: 'misskey',
-          emojis: allEmojis,
-        },
-        attachments: misskeyData.files?.map((file: any) => ({
-          type: file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : 'document',
-          url: file.url,
-          description: file.comment,
-          width: file.properties?.width,
-          height: file.properties?.height,
-        })) || [],
-        repliesCount: misskeyData.repliesCount || 0,
-        boostsCount: misskeyData.renoteCount || 0,
-        favouritesCount: 0, // Misskey tracks reactions differently
-        sensitive: !!misskeyData.cw,
-        spoilerText: misskeyData.cw || '',
-        url: misskeyData.url || `https://${parsed.domain}/notes/${misskeyData.id}`,
-        platform: 'misskey',
-        tags: misskeyData.tags?.map((tag: string) => ({
-          name: `#${tag}`,
-          url: `https://${parsed.domain}/tags/${tag}`,
-          type: 'hashtag' as const,
-        })) || [],
-      };
+      const universalData = convertMisskeyToUniversal(misskeyData, parsed.domain, instanceEmojis, platform);
+
+      // Misskey notes carry no link preview, so resolve the first link through the instance
+      const cardTarget = universalData.reblog || universalData;
+      cardTarget.card = await this.fetchMisskeyLinkCard(parsed.domain, cardTarget.content);
 
       return {
         success: true,
         data: universalData,
-        platform: 'misskey',
+        platform,
       };
     } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
       return await this.fetchActivityPubObject(parsed.domain, parsed.id);
     }
   }
@@ -779,13 +1124,13 @@ export class FediverseClient {
   /**
    * Fetch video from PeerTube instance
    */
-  private static async fetchPeerTubePost(parsed: any): Promise<FetchPostResult> {
+  private static async fetchPeerTubePost(parsed: ParsedUrl): Promise<FetchPostResult> {
     try {
       const platformConfig = SUPPORTED_PLATFORMS.peertube;
 
       const response = await this.makeApiRequest(
         parsed.domain,
-        platformConfig.apiEndpoints.status,
+        this.statusEndpoint(platformConfig),
         { id: parsed.id }
       );
 
@@ -793,107 +1138,77 @@ export class FediverseClient {
         throw new Error(`PeerTube API request failed: ${response.statusText}`);
       }
 
-      const peertubeData = await response.json();
-
-      // Log PeerTube account data for debugging
-      // Removed detailed debug output
-      // Removed detailed debug output
-
-      // Get avatar URL with multiple fallbacks
-      let avatarUrl = undefined;
-
-      // Try account.avatar first
-      if (peertubeData.account?.avatar) {
-        
-        if (peertubeData.account.avatar.path) {
-          avatarUrl = peertubeData.account.avatar.path.startsWith('http')
-            ? peertubeData.account.avatar.path
-            : `https://${parsed.domain}${peertubeData.account.avatar.path}`;
-        } else if (peertubeData.account.avatar.url) {
-          avatarUrl = peertubeData.account.avatar.url;
-        } else if (typeof peertubeData.account.avatar === 'string') {
-          avatarUrl = peertubeData.account.avatar.startsWith('http')
-            ? peertubeData.account.avatar
-            : `https://${parsed.domain}${peertubeData.account.avatar}`;
-        }
-      }
-
-      // Try account.avatars array
-      if (!avatarUrl && peertubeData.account?.avatars && Array.isArray(peertubeData.account.avatars) && peertubeData.account.avatars.length > 0) {
-        
-        const avatar = peertubeData.account.avatars[0];
-        if (avatar.path) {
-          avatarUrl = avatar.path.startsWith('http')
-            ? avatar.path
-            : `https://${parsed.domain}${avatar.path}`;
-        }
-      }
+      const peertubeData = parseUpstream(PeerTubeVideoSchema, await response.json(), 'PeerTube video');
 
-      // Try channel.avatar as fallback
-      if (!avatarUrl && peertubeData.channel?.avatar) {
-        
-        if (peertubeData.channel.avatar.path) {
-          avatarUrl = peertubeData.channel.avatar.path.startsWith('http')
-            ? peertubeData.channel.avatar.path
-            : `https://${parsed.domain}${peertubeData.channel.avatar.path}`;
-        }
-      }
+      // Avatar paths may be relative to the instance
+      const resolvePath = (path?: string | null) =>
+        path ? (path.startsWith('http') ? path : `https://${parsed.domain}${path}`) : undefined;
+      const resolveImage = (image: typeof peertubeData.account.avatar) =>
+        typeof image === 'string' ? resolvePath(image) : resolvePath(image?.path) || image?.url || undefined;
 
-      // Try channel.avatars array
-      if (!avatarUrl && peertubeData.channel?.avatars && Array.isArray(peertubeData.channel.avatars) && peertubeData.channel.avatars.length > 0) {
-        
-        const avatar = peertubeData.channel.avatars[0];
-        if (avatar.path) {
-          avatarUrl = avatar.path.startsWith('http')
-            ? avatar.path
-            : `https://${parsed.domain}${avatar.path}`;
-        }
-      }
+      // Get avatar URL with multiple fallbacks: account avatar(s), channel avatar(s), then avatarUrl
+      const avatarUrl =
+        resolveImage(peertubeData.account.avatar) ||
+        resolvePath(peertubeData.account.avatars?.[0]?.path) ||
+        resolveImage(peertubeData.channel?.avatar) ||
+        resolvePath(peertubeData.channel?.avatars?.[0]?.path) ||
+        peertubeData.account.avatarUrl ||
+        undefined;
 
-      // Try avatarUrl field directly
-      if (!avatarUrl && peertubeData.account?.avatarUrl) {
-        
-        avatarUrl = peertubeData.account.avatarUrl;
-      }
-
-      
+      const thumbnail = resolvePath(peertubeData.previewPath) || resolvePath(peertubeData.thumbnailPath);
+      const channel = peertubeData.channel;
 
       // Convert PeerTube format to our universal format
-      const universalData: FediversePost = {
+      const universalData: FediversePost = sanitizePost({
         id: peertubeData.id,
-        content: peertubeData.description || '',
+        // Descriptions are Markdown
+        content: renderMarkdown(peertubeData.description || ''),
         createdAt: peertubeData.publishedAt,
         account: {
           id: peertubeData.account.id,
           username: peertubeData.account.name,
           displayName: peertubeData.account.displayName || peertubeData.account.name,
           avatar: avatarUrl,
-          url: peertubeData.account.url,
+          url: peertubeData.account.url || '',
           acct: `${peertubeData.account.name}@${parsed.domain}`,
           platform: 'peertube',
           emojis: [],
         },
         attachments: [{
           type: 'video',
-          url: peertubeData.files?.[0]?.fileUrl || peertubeData.streamingPlaylists?.[0]?.files?.[0]?.fileUrl,
-          previewUrl: peertubeData.previewPath ? `https://${parsed.domain}${peertubeData.previewPath}` : peertubeData.thumbnailPath ? `https://${parsed.domain}${peertubeData.thumbnailPath}` : undefined,
-          description: peertubeData.name,
-          width: peertubeData.files?.[0]?.resolution?.width,
-          height: peertubeData.files?.[0]?.resolution?.height,
+          url: peertubeData.files?.[0]?.fileUrl || peertubeData.streamingPlaylists?.[0]?.files?.[0]?.fileUrl || '',
+          previewUrl: thumbnail,
+          width: peertubeData.files?.[0]?.resolution?.width ?? undefined,
+          height: peertubeData.files?.[0]?.resolution?.height ?? undefined,
         }],
         repliesCount: peertubeData.commentsTotal || 0,
         boostsCount: 0, // PeerTube doesn't have boosts
         favouritesCount: peertubeData.likes || 0,
         sensitive: peertubeData.nsfw || false,
         spoilerText: peertubeData.nsfw ? 'NSFW content' : '',
-        url: peertubeData.url,
+        url: peertubeData.url || '',
         platform: 'peertube',
         tags: peertubeData.tags?.map((tag: string) => ({
           name: `#${tag}`,
           url: `https://${parsed.domain}/tags/${tag}`,
           type: 'hashtag' as const,
         })) || [],
-      };
+        video: {
+          title: peertubeData.name,
+          thumbnail,
+          duration: peertubeData.duration ?? undefined,
+          views: peertubeData.views ?? undefined,
+          likes: peertubeData.likes ?? undefined,
+          dislikes: peertubeData.dislikes ?? undefined,
+          licence: peertubeData.licence?.label || undefined,
+          channel: channel ? {
+            name: `${channel.name}@${channel.host || parsed.domain}`,
+            displayName: channel.displayName || channel.name,
+            avatar: resolveImage(channel.avatar) || resolvePath(channel.avatars?.[0]?.path),
+            url: channel.url || '',
+          } : undefined,
+        },
+      });
 
       return {
         success: true,
@@ -901,14 +1216,230 @@ export class FediverseClient {
         platform: 'peertube',
       };
     } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
       return await this.fetchActivityPubObject(parsed.domain, parsed.id);
     }
   }
 
+  /**
+   * Fetch post or comment from a link aggregator
+   * Lemmy and PieFed are read through the Lemmy API; Mbin (and anything else) through ActivityPub
+   */
+  private static async fetchLemmyPost(parsed: ParsedUrl): Promise<FetchPostResult> {
+    try {
+      const isComment = /\/comment\/\d+/.test(parsed.originalUrl);
+      const isMbin = /\/m\/[^\/]+\/t\//.test(parsed.originalUrl);
+
+      // PieFed serves the same API under /api/alpha
+      for (const apiBase of isMbin ? [] : ['/api/v3', '/api/alpha']) {
+        const response = await this.makeApiRequest(
+          parsed.domain,
+          { path: `${apiBase}/${isComment ? 'comment' : 'post'}?id={id}`, method: 'GET' },
+          { id: parsed.id }
+        );
+
+        if (response.ok) {
+          const lemmyData = await response.json();
+          return {
+            success: true,
+            data: isComment ? convertLemmyCommentToUniversal(lemmyData) : convertLemmyPostToUniversal(lemmyData),
+            platform: 'lemmy',
+          };
+        }
+      }
+
+      const result = await this.fetchActivityPubObject(parsed.domain, parsed.originalUrl);
+      if (result.success && result.data) {
+        result.data.platform = 'lemmy';
+        result.platform = 'lemmy';
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
+      return await this.fetchActivityPubObject(parsed.domain, parsed.originalUrl);
+    }
+  }
+
+  /**
+   * Fetch track from Funkwhale instance
+   */
+  private static async fetchFunkwhalePost(parsed: ParsedUrl): Promise<FetchPostResult> {
+    try {
+      const response = await this.makeApiRequest(
+        parsed.domain,
+        this.statusEndpoint(SUPPORTED_PLATFORMS.funkwhale),
+        { id: parsed.id }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Funkwhale API request failed: ${response.statusText}`);
+      }
+
+      return {
+        success: true,
+        data: convertFunkwhaleTrackToUniversal(await response.json(), parsed.domain),
+        platform: 'funkwhale',
+      };
+    } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
+      return await this.fetchActivityPubObject(parsed.domain, parsed.originalUrl);
+    }
+  }
+
+  /**
+   * Fetch a blog post (WriteFreely, Plume, Ghost) through ActivityPub and render it as an article
+   */
+  private static async fetchBlogPost(parsed: ParsedUrl): Promise<FetchPostResult> {
+    const result = await this.fetchActivityPubPage(parsed);
+
+    if (result.success && result.data) {
+      result.data.platform = parsed.platform;
+      result.platform = parsed.platform;
+
+      // Blog posts are articles whatever their object type
+      if (!result.data.article) {
+        result.data.article = createArticleInfo(
+          result.data.content,
+          undefined,
+          result.data.attachments.find(att => att.type === 'image')?.url
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch post from Friendica through its Mastodon-compatible API, falling back to ActivityPub
+   */
+  private static async fetchFriendicaPost(parsed: ParsedUrl): Promise<FetchPostResult> {
+    try {
+      // Local posts are read by ID; GUIDs are resolved through search, which needs the login token to resolve remote posts
+      const isLocalId = /^\d+$/.test(parsed.id);
+      const response = await this.makeApiRequest(
+        parsed.domain,
+        isLocalId ? this.statusEndpoint(SUPPORTED_PLATFORMS.mastodon) : this.statusEndpoint(SUPPORTED_PLATFORMS.friendica),
+        { id: isLocalId ? parsed.id : encodeURIComponent(parsed.originalUrl) },
+        undefined,
+        parsed.accessToken
+      );
+
+      if (!response.ok) {
+        throw new Error(`Friendica API request failed: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      const status = isLocalId ? result : result?.statuses?.[0];
+      if (!status) {
+        throw new Error('Friendica search did not resolve the post');
+      }
+
+      return {
+        success: true,
+        data: convertMastodonToUniversal(status, 'friendica'),
+        platform: 'friendica',
+      };
+    } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
+
+      // The result keeps its ActivityPub platform so the thread is read through ActivityPub as well
+      const result = await this.fetchActivityPubPage(parsed);
+      if (result.success && result.data) {
+        result.data.platform = 'friendica';
+      }
+      return result;
+    }
+  }
+
+  /**
+   * Fetch a post from a platform that is only read through ActivityPub (Hubzilla, Mobilizon and Gancio events, BookWyrm statuses)
+   * The converter fills in the event or book details
+   */
+  private static async fetchActivityPubPlatformPost(parsed: ParsedUrl): Promise<FetchPostResult> {
+    const result = await this.fetchActivityPubPage(parsed);
+
+    if (result.success && result.data) {
+      result.data.platform = parsed.platform;
+      result.platform = parsed.platform;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch the ActivityPub object behind a web page URL
+   * Not every server negotiates content on the page URL; some only advertise the object in the page
+   */
+  private static async fetchActivityPubPage(parsed: ParsedUrl): Promise<FetchPostResult> {
+    const result = await this.fetchActivityPubObject(parsed.domain, parsed.originalUrl);
+    if (result.success) {
+      return result;
+    }
+
+    const objectUrl = await this.discoverActivityPubAlternate(parsed.originalUrl);
+    return objectUrl ? await this.fetchActivityPubObject(parsed.domain, objectUrl) : result;
+  }
+
+  /**
+   * Find the ActivityPub object advertised by an HTML page (<link rel="alternate" type="application/activity+json">)
+   */
+  private static async discoverActivityPubAlternate(pageUrl: string): Promise<string | null> {
+    try {
+      const response = await fetch(pageUrl, {
+        headers: {
+          'User-Agent': 'TootPic/1.0 (+https://github.com/Eyozy/tootpic)',
+          'Accept': 'text/html',
+        },
+      });
+      if (!response.ok) {
+        return null;
+      }
+
+      const html = await response.text();
+      for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+        const rel = tag.match(/\brel=["']?([^"'\s>]+)/i)?.[1];
+        const type = tag.match(/\btype=["']?([^"'>]+)/i)?.[1] || '';
+        const href = tag.match(/\bhref=["']?([^"'\s>]+)/i)?.[1];
+
+        if (rel?.toLowerCase() === 'alternate' && href && /application\/(activity|ld)\+json/i.test(type)) {
+          // The page chooses the link, so internal hosts are refused
+          const objectUrl = new URL(href, pageUrl);
+          return isPublicUrl(objectUrl.href) ? objectUrl.href : null;
+        }
+      }
+    } catch (error) {
+      console.warn('ActivityPub alternate discovery failed:', error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the Note in JSON-LD embedded in a page: the document itself or an entry of its @graph
+   */
+  private static findJsonLdNote(data: unknown): JsonLdObject | undefined {
+    const document = JsonLdDocumentSchema.safeParse(data);
+    if (!document.success) {
+      return undefined;
+    }
+
+    const { '@graph': graph, ...object } = document.data;
+    const candidates = graph ? graph.map(item => JsonLdObjectSchema.safeParse(item)).flatMap(item => (item.success ? [item.data] : [])) : [object];
+    return candidates.find(candidate => candidate.type === 'Note');
+  }
+
   /**
    * Fetch post from Ech0 instance
    */
-  private static async fetchEch0Post(parsed: any): Promise<FetchPostResult> {
+  private static async fetchEch0Post(parsed: ParsedUrl): Promise<FetchPostResult> {
     
     try {
       // Ech0 specific patterns - try the original page URL first to extract ActivityPub
@@ -925,7 +1456,7 @@ export class FediverseClient {
         `https://${parsed.domain}/notes/${parsed.id}`,
         // Generic status endpoint
         `https://${parsed.domain}/statuses/${parsed.id}`,
-      ].filter(Boolean);
+      ].filter((url): url is string => !!url);
 
       let activityPubData = null;
       let lastError = null;
@@ -933,10 +1464,8 @@ export class FediverseClient {
       for (const url of possibleUrls) {
         try {
           // First try to get as ActivityPub JSON
-          let response = await fetch(url, {
-            headers: {
-              'Accept': 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
-            },
+          let response = await signedFetch(url, {
+            'Accept': 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
           });
 
           if (response.ok) {
@@ -975,12 +1504,12 @@ export class FediverseClient {
             const activityJsonMatch = text.match(/<script[^>]*type=["']application\/ld\+json["'][^>]*>(.*?)<\/script>/s);
             if (activityJsonMatch) {
               try {
-                const jsonData = JSON.parse(activityJsonMatch[1]);
-                if (jsonData.type === 'Note' || (jsonData['@graph'] && jsonData['@graph'].some((item: any) => item.type === 'Note'))) {
-                  activityPubData = jsonData['@graph'] ? jsonData['@graph'].find((item: any) => item.type === 'Note') : jsonData;
+                const note = this.findJsonLdNote(JSON.parse(activityJsonMatch[1]));
+                if (note) {
+                  activityPubData = note;
 
                   // Extract avatar from HTML meta tags if not in ActivityPub data
-                  if (!activityPubData.attributedTo?.icon?.url) {
+                  if (typeof activityPubData.attributedTo !== 'object' || !activityPubData.attributedTo?.icon) {
                     // Try multiple patterns to find the user avatar
                     const avatarMatch = text.match(/<meta[^>]*property=["']og:image["'][^>]*content=["']([^"']+)["'][^>]*>/);
                     const userAvatarMatch = text.match(/<img[^>]*class=["'][^"']*avatar[^"']*["'][^>]*src=["']([^"']+)["'][^>]*>/);
@@ -1095,7 +1624,7 @@ export class FediverseClient {
 
                     // Extract username from HTML
                     const usernameMatch = text.match(/<[^>]*>@\s*([^<]+)<\/[^>]*>/);
-                    if (usernameMatch && activityPubData.attributedTo) {
+                    if (usernameMatch && activityPubData.attributedTo && typeof activityPubData.attributedTo === 'object') {
                       const username = usernameMatch[1].trim();
                       if (!activityPubData.attributedTo.preferredUsername) {
                         activityPubData.attributedTo.preferredUsername = username;
@@ -1104,7 +1633,7 @@ export class FediverseClient {
 
                     // Extract display name from HTML
                     const displayNameMatch = text.match(/<h2[^>]*>([^<]+)<\/h2>/);
-                    if (displayNameMatch && activityPubData.attributedTo) {
+                    if (displayNameMatch && activityPubData.attributedTo && typeof activityPubData.attributedTo === 'object') {
                       const displayName = displayNameMatch[1].trim();
                       if (!activityPubData.attributedTo.name) {
                         activityPubData.attributedTo.name = displayName;
@@ -1306,6 +1835,229 @@ export class FediverseClient {
     }
   }
 
+  /**
+   * Fetch the reply context (ancestors and self-replies) of a fetched post
+   * Thread failures never fail the post itself; an empty thread is returned instead
+   */
+  private static async fetchThread(domain: string, result: FetchPostResult, options: ThreadOptions, accessToken?: string): Promise<FediverseThread> {
+    const post = result.data!.reblog || result.data!;
+
+    try {
+      switch (result.platform) {
+        case 'mastodon':
+        case 'gotosocial':
+        case 'pleroma':
+        case 'akkoma':
+        case 'pixelfed':
+        case 'friendica':
+          return await this.fetchMastodonThread(domain, post, options, accessToken);
+        case 'misskey':
+        case 'sharkey':
+        case 'firefish':
+        case 'iceshrimp':
+          return await this.fetchMisskeyThread(domain, post, options);
+        default:
+          return {
+            ancestors: await this.fetchActivityPubAncestors(post, options.depth),
+            selfReplies: [],
+          };
+      }
+    } catch (error) {
+      console.warn('Failed to fetch thread context:', error);
+      return { ancestors: [], selfReplies: [] };
+    }
+  }
+
+  /**
+   * Fetch the edit history of an edited post from the Mastodon-compatible /history endpoint
+   * Other platforms don't expose earlier versions; failures return no history instead of failing the post
+   */
+  private static async fetchEditHistory(domain: string, result: FetchPostResult, accessToken?: string): Promise<FediverseRevision[] | undefined> {
+    const post = result.data!.reblog || result.data!;
+    if (!post.updatedAt || !['mastodon', 'gotosocial', 'pleroma', 'akkoma', 'friendica'].includes(result.platform || '')) {
+      return undefined;
+    }
+
+    try {
+      const response = await this.makeApiRequest(
+        domain,
+        { path: '/api/v1/statuses/{id}/history', method: 'GET' },
+        { id: post.id },
+        undefined,
+        accessToken
+      );
+
+      if (!response.ok) {
+        throw new Error(`History request failed: ${response.statusText}`);
+      }
+
+      const revisions = convertMastodonHistoryToRevisions(await response.json());
+      // A single entry is just the current version
+      return revisions.length > 1 ? revisions : undefined;
+    } catch (error) {
+      console.warn('Failed to fetch edit history:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Fetch thread context from a Mastodon-compatible /context endpoint
+   */
+  private static async fetchMastodonThread(domain: string, post: FediversePost, options: ThreadOptions, accessToken?: string): Promise<FediverseThread> {
+    const response = await this.makeApiRequest(
+      domain,
+      { path: '/api/v1/statuses/{id}/context', method: 'GET' },
+      { id: post.id },
+      undefined,
+      accessToken
+    );
+
+    if (!response.ok) {
+      throw new Error(`Context request failed: ${response.statusText}`);
+    }
+
+    const context = parseUpstream(MastodonContextSchema, await response.json(), 'Mastodon context');
+    const ancestors: FediversePost[] = context.ancestors
+      .slice(-options.depth)
+      .map(status => convertMastodonToUniversal(status, post.platform));
+
+    // Follow the chain of the author's own direct replies
+    const selfReplies: FediversePost[] = [];
+    if (options.includeSelfReplies) {
+      let currentId = post.id;
+      for (const status of context.descendants) {
+        if (selfReplies.length >= options.depth) break;
+        if (status.in_reply_to_id === currentId && status.account.id === post.account.id) {
+          selfReplies.push(convertMastodonToUniversal(status, post.platform));
+          currentId = status.id;
+        }
+      }
+    }
+
+    return { ancestors, selfReplies };
+  }
+
+  /**
+   * Fetch thread context from Misskey by walking replyId upwards and children downwards
+   */
+  private static async fetchMisskeyThread(domain: string, post: FediversePost, options: ThreadOptions): Promise<FediverseThread> {
+    const instanceEmojis = await this.fetchMisskeyEmojis(domain);
+    const endpoint = this.statusEndpoint(SUPPORTED_PLATFORMS.misskey);
+
+    const ancestors: FediversePost[] = [];
+    let parentId = post.inReplyTo;
+    while (parentId && ancestors.length < options.depth) {
+      const response = await this.makeApiRequest(domain, endpoint, { noteId: parentId });
+      if (!response.ok) break;
+
+      const parent = convertMisskeyToUniversal(await response.json(), domain, instanceEmojis, post.platform);
+      ancestors.unshift(parent);
+      parentId = parent.inReplyTo;
+    }
+
+    const selfReplies: FediversePost[] = [];
+    if (options.includeSelfReplies) {
+      let currentId = post.id;
+      while (selfReplies.length < options.depth) {
+        const response = await this.makeApiRequest(
+          domain,
+          { path: '/api/notes/children', method: 'POST' },
+          { noteId: currentId, limit: 30 }
+        );
+        if (!response.ok) break;
+
+        const children = parseUpstream(MisskeyNoteListSchema, await response.json(), 'Misskey note children');
+        const next = children.find(note => note.replyId === currentId && note.userId === post.account.id);
+        if (!next) break;
+
+        selfReplies.push(convertMisskeyToUniversal(next, domain, instanceEmojis, post.platform));
+        currentId = next.id;
+      }
+    }
+
+    return { ancestors, selfReplies };
+  }
+
+  /**
+   * Walk ActivityPub inReplyTo links upwards to collect ancestors
+   */
+  private static async fetchActivityPubAncestors(post: FediversePost, depth: number): Promise<FediversePost[]> {
+    const ancestors: FediversePost[] = [];
+    let parentUrl = post.inReplyTo;
+
+    // inReplyTo is chosen by the remote server, so internal hosts end the walk
+    while (isPublicUrl(parentUrl) && ancestors.length < depth) {
+      const response = await signedFetch(parentUrl, {
+        'Accept': 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
+      });
+      if (!response.ok) break;
+
+      const parentData = await response.json();
+      // The next iteration fetches the parent's parent anyway
+      const parent = await convertActivityPubToUniversal(parentData, new URL(parentUrl).hostname, true, false);
+      ancestors.unshift(parent);
+      parentUrl = parent.inReplyTo;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Fetch the instance emoji list used to resolve Misskey custom emojis
+   * Misskey doesn't include emoji URLs in the note response
+   */
+  private static async fetchMisskeyEmojis(domain: string): Promise<Map<string, string>> {
+    const instanceEmojis: Map<string, string> = new Map();
+    try {
+      const emojiResponse = await fetch(`https://${domain}/api/emojis`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (emojiResponse.ok) {
+        const emojiData = parseUpstream(MisskeyEmojiListSchema, await emojiResponse.json(), 'Misskey emoji list');
+        emojiData.emojis.forEach(emoji => {
+          if (emoji.url) {
+            instanceEmojis.set(emoji.name, emoji.url);
+          }
+        });
+      }
+    } catch (emojiError) {
+      console.warn('Failed to fetch Misskey emoji list:', emojiError);
+    }
+
+    return instanceEmojis;
+  }
+
+  /**
+   * Resolve a link preview for the first URL in a Misskey note via the instance's summaly proxy
+   */
+  private static async fetchMisskeyLinkCard(domain: string, text: string): Promise<FediverseLinkCard | undefined> {
+    const link = text.match(/https?:\/\/[^\s<>"'()\[\]]+/)?.[0];
+    if (!link) {
+      return undefined;
+    }
+
+    try {
+      const response = await this.makeApiRequest(domain, {
+        path: `/url?url=${encodeURIComponent(link)}`,
+        method: 'GET',
+      });
+
+      if (!response.ok) {
+        return undefined;
+      }
+
+      return convertMisskeyUrlPreviewToCard(await response.json(), link);
+    } catch (error) {
+      console.warn('Failed to fetch Misskey link preview:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Resolve account details from a Fediverse account identifier
    */
@@ -1320,37 +2072,22 @@ export class FediverseClient {
 
       if (!response.ok) return null;
 
-      const webfingerData = await response.json();
-      const selfLink = webfingerData.links?.find((link: any) => link.rel === 'self' && link.type.includes('activity+json'));
+      const webfingerData = parseUpstream(WebFingerSchema, await response.json(), 'WebFinger');
+      const selfHref = webfingerData.links?.find(link => link.rel === 'self' && link.type?.includes('activity+json'))?.href;
 
-      if (!selfLink?.href) return null;
+      if (!isPublicUrl(selfHref)) return null;
 
       // Fetch the actor profile
-      const actorResponse = await fetch(selfLink.href, {
-        headers: {
-          'Accept': 'application/activity+json',
-        },
+      const actorResponse = await signedFetch(selfHref, {
+        'Accept': 'application/activity+json',
       });
 
       if (!actorResponse.ok) return null;
 
-      const actorData = await actorResponse.json();
+      const actorData = parseUpstream(ActivityPubActorSchema, await actorResponse.json(), 'ActivityPub actor');
 
       // Convert to our account format
-      return {
-        id: actorData.id,
-        username: actorData.preferredUsername,
-        displayName: actorData.name || actorData.preferredUsername,
-        avatar: actorData.icon?.url,
-        url: actorData.url || actorData.id,
-        acct: acct,
-        platform: 'ech0',
-        emojis: actorData.tag?.filter((tag: any) => tag.type === 'Emoji').map((emoji: any) => ({
-          shortcode: emoji.name,
-          url: emoji.icon.url,
-          staticUrl: emoji.icon.url,
-        })) || [],
-      };
+      return sanitizeAccount({ ...convertActorToAccount(actorData, 'ech0'), acct });
     } catch (error) {
       console.error('Failed to resolve account:', error);
       return null;
@@ -1382,10 +2119,8 @@ export class FediverseClient {
       for (const url of possibleUrls) {
         if (!url) continue;
         try {
-          const response = await fetch(url, {
-            headers: {
-              'Accept': 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
-            },
+          const response = await signedFetch(url, {
+            'Accept': 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
           });
 
           if (response.ok) {
@@ -1421,11 +2156,12 @@ export class FediverseClient {
       let postData = activityPubData;
       if (activityPubData.type === 'Create' && activityPubData.object) {
         if (typeof activityPubData.object === 'string') {
-          // Fetch the actual object
-          const objectResponse = await fetch(activityPubData.object, {
-            headers: {
-              'Accept': 'application/activity+json',
-            },
+          // Fetch the actual object; the remote server chooses its URL, so internal hosts are refused
+          if (!isPublicUrl(activityPubData.object)) {
+            throw new Error('Created object is not on a public host');
+          }
+          const objectResponse = await signedFetch(activityPubData.object, {
+            'Accept': 'application/activity+json',
           });
 
           if (objectResponse.ok) {
@@ -1436,6 +2172,33 @@ export class FediverseClient {
         }
       }
 
+      // Boosts are Announce activities pointing at the original object
+      if (activityPubData.type === 'Announce' && activityPubData.object) {
+        let announcedData = activityPubData.object;
+        if (typeof announcedData === 'string') {
+          if (!isPublicUrl(announcedData)) {
+            throw new Error('Boosted post is not on a public host');
+          }
+          const announcedResponse = await signedFetch(announcedData, {
+            'Accept': 'application/activity+json',
+          });
+
+          if (!announcedResponse.ok) {
+            throw new Error(`Failed to fetch boosted post: ${announcedResponse.statusText}`);
+          }
+
+          announcedData = await announcedResponse.json();
+        }
+
+        const original = await convertActivityPubToUniversal(announcedData, domain);
+
+        return {
+          success: true,
+          data: await convertAnnounceToUniversal(activityPubData, original, domain),
+          platform: 'generic',
+        };
+      }
+
       const universalData = await convertActivityPubToUniversal(postData, domain);
 
       return {
@@ -1444,6 +2207,9 @@ export class FediverseClient {
         platform: 'generic',
       };
     } catch (error) {
+      if (error instanceof UpstreamParseError) {
+        return this.parseErrorResult(error);
+      }
       console.error('Generic ActivityPub fetch failed:', error);
       return {
         success: false,
@@ -1475,10 +2241,46 @@ export class FediverseClient {
         name: 'Pleroma',
         examples: ['https://pleroma.site/objects/abc123-def456', 'https://pleroma.site/notice/abc123'],
       },
+      {
+        name: 'Akkoma',
+        examples: ['https://akkoma.example/notice/abc123'],
+      },
+      {
+        name: 'GoToSocial',
+        examples: ['https://gts.example/@username/statuses/01HZXAMPLE0000000000000000'],
+      },
       {
         name: 'Misskey',
         examples: ['https://misskey.io/notes/abc123def456'],
       },
+      {
+        name: 'Sharkey / Firefish / Iceshrimp',
+        examples: ['https://sharkey.example/notes/abc123def456'],
+      },
+      {
+        name: 'Friendica / Hubzilla',
+        examples: ['https://friendica.example/display/0b6e1f2a-1234-5678-9abc-def012345678', 'https://hubzilla.example/item/0b6e1f2a-1234-5678-9abc-def012345678'],
+      },
+      {
+        name: 'Lemmy / PieFed / Mbin',
+        examples: ['https://lemmy.world/post/123456', 'https://lemmy.world/comment/654321', 'https://fedia.io/m/magazine/t/123456'],
+      },
+      {
+        name: 'Funkwhale',
+        examples: ['https://open.audio/library/tracks/12345'],
+      },
+      {
+        name: 'Mobilizon / Gancio',
+        examples: ['https://mobilizon.fr/events/0f6e2d8b-4a1c-4f3e-9a57-3c2b1d0e9f84', 'https://gancio.example/event/event-slug'],
+      },
+      {
+        name: 'BookWyrm',
+        examples: ['https://bookwyrm.social/user/username/review/123456', 'https://bookwyrm.social/user/username/quotation/123456'],
+      },
+      {
+        name: 'WriteFreely / Plume / Ghost',
+        examples: ['https://write.as/username/post-slug', 'https://plume.example/~/Blog/post-slug'],
+      },
       {
         name: 'Ech0',
         examples: ['https://your-ech0-instance.com/posts/post123', 'https://your-ech0-instance.com/objects/abc123-def456'],
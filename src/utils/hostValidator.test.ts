@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { isInternalHost, isPublicUrl } from './hostValidator';
+
+describe('isInternalHost', () => {
+  it.each([['localhost'], ['LOCALHOST'], ['127.0.0.1'], ['10.1.2.3'], ['172.16.0.1'], ['192.168.1.1'], ['169.254.169.254'], ['[::1]'], ['[fe80::1]']])('rejects %s', (host) => {
+    expect(isInternalHost(host)).toBe(true);
+  });
+
+  it.each([['mastodon.social'], ['172.32.0.1'], ['8.8.8.8']])('accepts %s', (host) => {
+    expect(isInternalHost(host)).toBe(false);
+  });
+});
+
+describe('isPublicUrl', () => {
+  it('accepts public http(s) URLs', () => {
+    expect(isPublicUrl('https://mastodon.social/users/alice/statuses/1')).toBe(true);
+  });
+
+  it.each([
+    ['http://169.254.169.254/latest/meta-data/'],
+    ['https://localhost:8080/actor'],
+    ['http://[::1]/'],
+    ['file:///etc/passwd'],
+    ['not a url'],
+    [undefined],
+  ])('rejects %s', (url) => {
+    expect(isPublicUrl(url)).toBe(false);
+  });
+});
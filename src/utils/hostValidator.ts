@@ -0,0 +1,45 @@
+/**
+ * Host checks for outgoing requests
+ * Post URLs and resolving instances come from the user, but ActivityPub documents point to further
+ * URLs (inReplyTo, attributedTo, WebFinger links) that a remote server chooses, so every URL is
+ * checked before it is fetched to keep requests out of internal networks
+ */
+
+// Internal network addresses are never fetched
+const INTERNAL_HOST_PATTERNS = [
+  /^localhost$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2[0-9]|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^::1$/,
+  /^fc00:/,
+  /^fe80:/
+];
+
+/**
+ * Whether a host name (as in `URL.hostname`) points into an internal network
+ */
+export function isInternalHost(hostname: string): boolean {
+  // IPv6 hosts are bracketed in URLs
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  return INTERNAL_HOST_PATTERNS.some(pattern => pattern.test(host));
+}
+
+/**
+ * Whether a URL may be fetched: http(s) on a host outside internal networks
+ */
+export function isPublicUrl(url: unknown): url is string {
+  if (typeof url !== 'string') {
+    return false;
+  }
+
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (protocol === 'https:' || protocol === 'http:') && !isInternalHost(hostname);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToText, sanitizeHtml, sanitizeUrl } from './htmlSanitizer';
+
+const LINK_ATTRIBUTES = 'rel="nofollow noopener noreferrer" target="_blank"';
+
+describe('sanitizeHtml', () => {
+  // Known XSS payloads and the markup that must remain of them
+  const corpus: Array<[string, string, string]> = [
+    ['img onerror', '<img src=x onerror="alert(1)">', ''],
+    ['script inside svg', '<p>hi<svg><script>alert(1)</script></svg>there</p>', '<p>hithere</p>'],
+    ['self-closing svg onload', '<svg/onload=alert(1)>', ''],
+    ['javascript: href', '<a href="javascript:alert(1)">x</a>', `<a ${LINK_ATTRIBUTES}>x</a>`],
+    ['javascript: href with an encoded tab', '<a href="jav&#x09;ascript:alert(1)">x</a>', `<a ${LINK_ATTRIBUTES}>x</a>`],
+    ['javascript: href with a raw tab', '<a href="jav\tascript:alert(1)">x</a>', `<a ${LINK_ATTRIBUTES}>x</a>`],
+    ['mixed-case javascript: href', '<A HREF="JaVaScRiPt:alert(1)">x</A>', `<a ${LINK_ATTRIBUTES}>x</a>`],
+    ['data: href', '<a href="data:text/html,<script>alert(1)</script>">x</a>', `<a ${LINK_ATTRIBUTES}>x</a>`],
+    ['slash-separated href', '<a/href="javascript:alert(1)">x</a>', `<a ${LINK_ATTRIBUTES}>x</a>`],
+    ['event handler and target on a link', '<a href="https://example.com/" onclick="alert(1)" target="_self">ok</a>', `<a href="https://example.com/" ${LINK_ATTRIBUTES}>ok</a>`],
+    ['comment hiding markup', '<!--><img src=x onerror=alert(1)>-->', ''],
+    ['style content', '<style>body{background:url(javascript:alert(1))}</style>text', 'text'],
+    ['textarea content', '<textarea><img src=x onerror=alert(1)></textarea>text', 'text'],
+    ['math namespace', '<math><mi xlink:href="javascript:alert(1)">x</mi></math>y', 'y'],
+    ['iframe', '<iframe src="https://example.com/"></iframe>kept', 'kept'],
+    ['details ontoggle', '<details ontoggle="alert(1)" open><summary>s</summary>b</details>', '<details><summary>s</summary>b</details>'],
+    ['lang breaking out of its attribute', '<p lang="en&quot; onmouseover=&quot;alert(1)">t</p>', '<p>t</p>'],
+    ['style beyond MFM colors', '<span style="color: #ff0000">red</span><span style="color: red; background: url(x)">bad</span>', '<span style="color: #ff0000">red</span><span>bad</span>'],
+    ['class filtering', '<span class="mention evil mfm-x2 mfm-<x">c</span>', '<span class="mention mfm-x2">c</span>'],
+    ['stray angle brackets', '<p>1 < 2 > 0</p>', '<p>1 &lt; 2 &gt; 0</p>'],
+  ];
+
+  it.each(corpus)('neutralizes %s', (_, payload, expected) => {
+    expect(sanitizeHtml(payload)).toBe(expected);
+  });
+
+  it('keeps allowed formatting', () => {
+    const html = '<p>Hello <strong>world</strong><br><a href="https://example.com/tags/x" class="mention hashtag">#x</a></p>';
+    expect(sanitizeHtml(html)).toBe(`<p>Hello <strong>world</strong><br><a href="https://example.com/tags/x" class="mention hashtag" ${LINK_ATTRIBUTES}>#x</a></p>`);
+  });
+});
+
+describe('sanitizeUrl', () => {
+  it.each([
+    ['javascript:alert(1)'],
+    ['jav&#x61;script:alert(1)'],
+    ['//example.com/protocol-relative'],
+    ['data:image/png;base64,AAAA'],
+  ])('rejects %s', (url) => {
+    expect(sanitizeUrl(url)).toBeUndefined();
+  });
+
+  it('normalizes http(s) URLs', () => {
+    expect(sanitizeUrl(' https://example.com/a ')).toBe('https://example.com/a');
+    expect(sanitizeUrl('http://example.com/\na')).toBe('http://example.com/a');
+    expect(sanitizeUrl('https://example.com/a"b')).toBe('https://example.com/a%22b');
+  });
+});
+
+describe('htmlToText', () => {
+  it('strips tags and decodes entities', () => {
+    expect(htmlToText('<p>a &amp; b</p><p>c<br>d</p>')).toBe('a & b c d');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Allowlist-based HTML sanitizer for remote post content
+ * Runs in the converters (server side, no DOM available), so it works on the raw markup
+ */
+
+import type { FediverseAccount, FediverseEmoji, FediversePost } from '../types/activitypub';
+
+// Tags kept as-is (minus disallowed attributes); covers Mastodon/Pleroma markup, Misskey MFM output
+// and the BBCode-derived HTML of Friendica and Hubzilla
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'a', 'span', 'div',
+  'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'ins', 'mark', 'small', 'sub', 'sup', 'center',
+  'code', 'pre', 'blockquote', 'q', 'cite', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ruby', 'rt', 'rp',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  // BBCode [spoiler]; the body stays collapsed in the image
+  'details', 'summary',
+]);
+
+// Tags removed together with everything inside them
+const DROPPED_CONTENT_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'template', 'noscript', 'noembed', 'textarea', 'title', 'svg', 'math', 'select', 'xmp',
+]);
+
+const VOID_TAGS = new Set(['br', 'hr']);
+
+// Microformat classes used by Mastodon and friends, plus our own MFM classes
+const ALLOWED_CLASSES = new Set(['mention', 'hashtag', 'u-url', 'h-card', 'invisible', 'ellipsis', 'quote-inline']);
+const ALLOWED_CLASS_PREFIX = 'mfm-';
+
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'=<>\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Decode character references so URL schemes can't hide behind entities (e.g. `jav&#x61;script:`)
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert HTML to plain text (tags removed, entities decoded, whitespace collapsed)
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>|<\/p>/gi, ' ').replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Return the URL if it is an absolute http(s) URL, otherwise undefined
+ */
+export function sanitizeUrl(url: unknown): string | undefined {
+  if (typeof url !== 'string') {
+    return undefined;
+  }
+
+  // Browsers strip tabs/newlines anywhere and control characters around the URL, so must we
+  const candidate = decodeEntities(url).replace(/[\t\n\r]/g, '').replace(/^[\u0000-\u0020]+|[\u0000-\u0020]+$/g, '');
+  if (!/^https?:\/\//i.test(candidate)) {
+    return undefined;
+  }
+
+  try {
+    return new URL(candidate).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the attribute string for an allowed tag, keeping only safe attributes
+ */
+function sanitizeAttributes(tagName: string, rawAttributes: string): string {
+  const attributes: string[] = [];
+  let match;
+
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(rawAttributes)) !== null) {
+    const name = match[1].toLowerCase();
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+
+    if (name === 'class') {
+      const classes = value.split(/\s+/).filter(cls => ALLOWED_CLASSES.has(cls) || (cls.startsWith(ALLOWED_CLASS_PREFIX) && /^[\w-]+$/.test(cls)));
+      if (classes.length > 0) {
+        attributes.push(`class="${escapeHtml(classes.join(' '))}"`);
+      }
+    } else if (name === 'href' && tagName === 'a') {
+      const href = sanitizeUrl(value);
+      if (href) {
+        attributes.push(`href="${escapeHtml(href)}"`);
+      }
+    } else if (name === 'style' && tagName === 'span') {
+      // Only the plain colors of MFM's fg/bg functions
+      if (/^(?:background-)?color: #[0-9a-fA-F]{3,8}$/.test(value)) {
+        attributes.push(`style="${value}"`);
+      }
+    } else if (name === 'lang') {
+      if (/^[a-zA-Z0-9-]+$/.test(value)) {
+        attributes.push(`lang="${value}"`);
+      }
+    }
+    // Everything else (on* handlers, other styles, src, target, ...) is dropped
+  }
+
+  if (tagName === 'a') {
+    attributes.push('rel="nofollow noopener noreferrer"', 'target="_blank"');
+  }
+
+  return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+/**
+ * Sanitize remote HTML against the allowlist
+ * Disallowed tags are unwrapped (their text is kept) except for script-like tags, which are removed entirely
+ */
+export function sanitizeHtml(html: string): string {
+  if (!html) {
+    return '';
+  }
+
+  let output = '';
+  let lastIndex = 0;
+  let droppedTag: string | null = null;
+  let match;
+
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(html)) !== null) {
+    const text = html.slice(lastIndex, match.index);
+    lastIndex = TAG_PATTERN.lastIndex;
+
+    if (!droppedTag) {
+      output += text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    // Comments (and unterminated comments) are always removed
+    if (!match[2]) {
+      continue;
+    }
+
+    const isClosing = match[1] === '/';
+    const tagName = match[2].toLowerCase();
+
+    if (droppedTag) {
+      if (isClosing && tagName === droppedTag) {
+        droppedTag = null;
+      }
+      continue;
+    }
+
+    if (DROPPED_CONTENT_TAGS.has(tagName)) {
+      // Self-closing forms like <svg/onload=...> have no content to skip
+      if (!isClosing && !/\/\s*$/.test(match[3])) {
+        droppedTag = tagName;
+      }
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(tagName)) {
+      continue;
+    }
+
+    if (isClosing) {
+      if (!VOID_TAGS.has(tagName)) {
+        output += `</${tagName}>`;
+      }
+    } else {
+      output += `<${tagName}${sanitizeAttributes(tagName, match[3])}>`;
+    }
+  }
+
+  if (!droppedTag) {
+    output += html.slice(lastIndex).replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  return output;
+}
+
+/**
+ * Keep only emojis whose shortcode and URL are safe to interpolate into markup
+ */
+export function sanitizeEmojis(emojis: FediverseEmoji[]): FediverseEmoji[] {
+  return emojis.flatMap(emoji => {
+    const url = sanitizeUrl(emoji.url);
+    if (!url || typeof emoji.shortcode !== 'string' || !/^[a-zA-Z0-9_]+$/.test(emoji.shortcode)) {
+      return [];
+    }
+    return [{ ...emoji, url, staticUrl: sanitizeUrl(emoji.staticUrl) }];
+  });
+}
+
+/**
+ * Sanitize the URLs and emojis of an account; display names stay plain text and are escaped when rendered
+ */
+export function sanitizeAccount(account: FediverseAccount): FediverseAccount {
+  return {
+    ...account,
+    avatar: sanitizeUrl(account.avatar),
+    url: sanitizeUrl(account.url) || '',
+    emojis: sanitizeEmojis(account.emojis || []),
+  };
+}
+
+/**
+ * Sanitize a converted post: content and quote HTML, account and the URLs of media, link cards, reactions, communities, articles, videos, events and books
+ * Nested posts (reblog, quote) come from their own converter calls and are already sanitized
+ */
+export function sanitizePost<T extends FediversePost>(post: T): T {
+  const cardUrl = sanitizeUrl(post.card?.url);
+
+  return {
+    ...post,
+    content: sanitizeHtml(post.content),
+    account: sanitizeAccount(post.account),
+    attachments: post.attachments.flatMap(attachment => {
+      const url = sanitizeUrl(attachment.url);
+      const previewUrl = sanitizeUrl(attachment.previewUrl);
+      return url || previewUrl ? [{ ...attachment, url: url || previewUrl || '', previewUrl }] : [];
+    }),
+    card: post.card && cardUrl ? { ...post.card, url: cardUrl, image: sanitizeUrl(post.card.image) } : undefined,
+    reactions: post.reactions?.map(reaction => ({ ...reaction, url: sanitizeUrl(reaction.url) })),
+    community: post.community ? { ...post.community, url: sanitizeUrl(post.community.url) || '' } : undefined,
+    linkUrl: sanitizeUrl(post.linkUrl),
+    article: post.article ? { ...post.article, heroImage: sanitizeUrl(post.article.heroImage) } : undefined,
+    book: post.book ? {
+      ...post.book,
+      cover: sanitizeUrl(post.book.cover),
+      url: sanitizeUrl(post.book.url) || '',
+      quote: post.book.quote ? sanitizeHtml(post.book.quote) : undefined,
+    } : undefined,
+    event: post.event ? { ...post.event, onlineUrl: sanitizeUrl(post.event.onlineUrl) } : undefined,
+    video: post.video ? {
+      ...post.video,
+      thumbnail: sanitizeUrl(post.video.thumbnail),
+      channel: post.video.channel ? { ...post.video.channel, avatar: sanitizeUrl(post.video.channel.avatar), url: sanitizeUrl(post.video.channel.url) || '' } : undefined,
+    } : undefined,
+  };
+}
@@ -0,0 +1,162 @@
+import { createServer, request as httpRequest } from 'node:http';
+import type { IncomingMessage, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { generateKeyPairSync, verify } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { GET as getActor } from '../pages/actor';
+import { GET as getWebFinger } from '../pages/.well-known/webfinger';
+import { getInstanceActor, signedFetch } from './httpSignature';
+
+type Verifier = (request: IncomingMessage) => Promise<boolean>;
+
+/**
+ * Start a server that answers `/note` with 200 when the verifier accepts the request's signature
+ * `/actor` is served by the actor route, like a remote server would fetch it
+ */
+async function startServer(verifier: Verifier, asksForRfc9421 = false): Promise<Server> {
+  const server = createServer(async (request, response) => {
+    if (request.url === '/actor') {
+      const actor = await getActor({} as Parameters<typeof getActor>[0]);
+      response.writeHead(actor.status, { 'Content-Type': actor.headers.get('content-type') || '' });
+      response.end(await actor.text());
+      return;
+    }
+
+    if (asksForRfc9421 && !request.headers['signature-input']) {
+      response.writeHead(401, { 'Accept-Signature': 'sig1=("@method" "@target-uri");alg="rsa-v1_5-sha256"' });
+      response.end();
+      return;
+    }
+
+    response.writeHead(await verifier(request) ? 200 : 401);
+    response.end();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+function portOf(server: Server): number {
+  return (server.address() as AddressInfo).port;
+}
+
+// signedFetch refuses internal hosts, so the local servers are reached through public-looking `.test` names
+const CAVAGE_ORIGIN = 'http://cavage.test';
+const RFC9421_ORIGIN = 'http://rfc9421.test';
+
+/**
+ * Fetch that sends requests for `.test` hosts to the local server on that host's port, keeping the Host header
+ */
+function forwardingFetch(ports: Record<string, number>): typeof fetch {
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const headers = Object.fromEntries(new Headers(init?.headers).entries());
+
+    return new Promise<Response>((resolve, reject) => {
+      const forwarded = httpRequest({ host: '127.0.0.1', port: ports[url.hostname], path: `${url.pathname}${url.search}`, headers: { ...headers, host: url.host } }, (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve(new Response(Buffer.concat(chunks), {
+          status: response.statusCode,
+          headers: Object.entries(response.headers).map(([name, value]): [string, string] => [name, String(value)]),
+        })));
+      });
+      forwarded.on('error', reject);
+      forwarded.end();
+    });
+  };
+}
+
+// Fetch the signer's key the way a verifying server does: dereference the keyId and read publicKeyPem
+async function fetchPublicKey(keyId: string): Promise<string> {
+  const actor = await (await fetch(keyId.replace(/#.*$/, ''), { headers: { 'Accept': 'application/activity+json' } })).json();
+  expect(actor.publicKey.id).toBe(keyId);
+  return actor.publicKey.publicKeyPem;
+}
+
+function verifyRsaSha256(publicKeyPem: string, data: string, signature: string): boolean {
+  return verify('sha256', Buffer.from(data), publicKeyPem, Buffer.from(signature, 'base64'));
+}
+
+const verifyCavage: Verifier = async (request) => {
+  const header = String(request.headers['signature'] || '');
+  const params = Object.fromEntries([...header.matchAll(/(\w+)="([^"]*)"/g)].map(([, key, value]) => [key, value]));
+  expect(params.algorithm).toBe('rsa-sha256');
+  expect(params.headers).toBe('(request-target) host date');
+
+  const signingString = [
+    `(request-target): ${request.method?.toLowerCase()} ${request.url}`,
+    `host: ${request.headers.host}`,
+    `date: ${request.headers.date}`,
+  ].join('\n');
+  return verifyRsaSha256(await fetchPublicKey(params.keyId), signingString, params.signature);
+};
+
+const verifyRfc9421: Verifier = async (request) => {
+  const signatureParams = String(request.headers['signature-input'] || '').replace(/^sig1=/, '');
+  const signature = String(request.headers['signature'] || '').match(/^sig1=:([^:]+):$/)?.[1] || '';
+  expect(signatureParams).toMatch(/^\("@method" "@target-uri"\);created=\d+;keyid="[^"]+";alg="rsa-v1_5-sha256"$/);
+
+  const signatureBase = [
+    `"@method": ${request.method}`,
+    `"@target-uri": http://${request.headers.host}${request.url}`,
+    `"@signature-params": ${signatureParams}`,
+  ].join('\n');
+  return verifyRsaSha256(await fetchPublicKey(signatureParams.match(/keyid="([^"]+)"/)?.[1] || ''), signatureBase, signature);
+};
+
+describe('signedFetch', () => {
+  let cavageServer: Server;
+  let rfc9421Server: Server;
+
+  beforeAll(async () => {
+    cavageServer = await startServer(verifyCavage);
+    rfc9421Server = await startServer(verifyRfc9421, true);
+    vi.stubGlobal('fetch', forwardingFetch({ 'cavage.test': portOf(cavageServer), 'rfc9421.test': portOf(rfc9421Server) }));
+
+    // The actor is read from the environment on first use
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    process.env.TOOTPIC_ACTOR_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    process.env.TOOTPIC_ORIGIN = CAVAGE_ORIGIN;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await Promise.all([cavageServer, rfc9421Server].map(server => new Promise(resolve => server.close(resolve))));
+  });
+
+  it('signs with draft-cavage by default', async () => {
+    const response = await signedFetch(`${CAVAGE_ORIGIN}/note?page=1`, { 'Accept': 'application/activity+json' });
+    expect(response.status).toBe(200);
+  });
+
+  it('switches to RFC 9421 when the server asks for it', async () => {
+    const response = await signedFetch(`${RFC9421_ORIGIN}/note`);
+    expect(response.status).toBe(200);
+
+    // Later requests to that host are signed with RFC 9421 right away
+    expect((await signedFetch(`${RFC9421_ORIGIN}/note`)).status).toBe(200);
+  });
+
+  it.each([
+    ['http://127.0.0.1:8080/note'],
+    ['http://localhost/actor'],
+    ['http://169.254.169.254/latest/meta-data/'],
+    ['file:///etc/passwd'],
+  ])('refuses to send a signed request to %s', async (url) => {
+    await expect(signedFetch(url)).rejects.toThrow('not a public http(s) URL');
+  });
+
+  it('finds the instance actor through WebFinger', async () => {
+    const actor = getInstanceActor();
+    const response = await getWebFinger({ url: new URL(`${CAVAGE_ORIGIN}/.well-known/webfinger?resource=acct:cavage.test@cavage.test`) } as Parameters<typeof getWebFinger>[0]);
+    expect(response.status).toBe(200);
+
+    const jrd = await response.json();
+    expect(jrd.subject).toBe('acct:cavage.test@cavage.test');
+    expect(jrd.links).toContainEqual({ rel: 'self', type: 'application/activity+json', href: actor?.actorUrl });
+
+    const unknown = await getWebFinger({ url: new URL(`${CAVAGE_ORIGIN}/.well-known/webfinger?resource=acct:alice@cavage.test`) } as Parameters<typeof getWebFinger>[0]);
+    expect(unknown.status).toBe(404);
+  });
+});
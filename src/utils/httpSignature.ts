@@ -0,0 +1,127 @@
+/**
+ * HTTP Signatures for outgoing ActivityPub GETs
+ * Instances in authorized-fetch / secure mode only answer signed requests, so TootPic signs them as its
+ * instance actor (served at /actor). Without a configured key, requests go out unsigned.
+ */
+
+import { createPrivateKey, createPublicKey, createSign } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { isPublicUrl } from './hostValidator';
+
+export interface InstanceActor {
+  actorUrl: string;
+  keyId: string;
+  publicKeyPem: string;
+  privateKey: KeyObject;
+}
+
+const DEFAULT_ORIGIN = 'https://tootpic.vercel.app';
+
+// Hosts that rejected a draft-cavage signature and asked for RFC 9421 via Accept-Signature
+const rfc9421Hosts = new Set<string>();
+
+let instanceActor: InstanceActor | null | undefined;
+
+/**
+ * Get the instance actor from the environment
+ * TOOTPIC_ACTOR_PRIVATE_KEY holds a PKCS#8 or PKCS#1 RSA key in PEM format (newlines may be escaped as `\n`);
+ * TOOTPIC_ORIGIN is the public origin the actor is served from
+ * @returns null when no key is configured
+ */
+export function getInstanceActor(): InstanceActor | null {
+  if (instanceActor !== undefined) {
+    return instanceActor;
+  }
+
+  const privateKeyPem = process.env.TOOTPIC_ACTOR_PRIVATE_KEY?.replace(/\\n/g, '\n').trim();
+  if (!privateKeyPem) {
+    instanceActor = null;
+    return instanceActor;
+  }
+
+  try {
+    const privateKey = createPrivateKey(privateKeyPem);
+    const actorUrl = `${(process.env.TOOTPIC_ORIGIN || DEFAULT_ORIGIN).replace(/\/+$/, '')}/actor`;
+    instanceActor = {
+      actorUrl,
+      keyId: `${actorUrl}#main-key`,
+      publicKeyPem: createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString(),
+      privateKey,
+    };
+  } catch (error) {
+    console.error('[HttpSignature] TOOTPIC_ACTOR_PRIVATE_KEY is not a valid private key, requests stay unsigned:', error);
+    instanceActor = null;
+  }
+
+  return instanceActor;
+}
+
+function signRsaSha256(actor: InstanceActor, data: string): string {
+  return createSign('sha256').update(data).sign(actor.privateKey, 'base64');
+}
+
+/**
+ * Sign a GET with draft-cavage-http-signatures (what Mastodon, GoToSocial, Misskey and most others verify)
+ */
+function signCavage(actor: InstanceActor, url: URL, headers: Record<string, string>): Record<string, string> {
+  const date = new Date().toUTCString();
+  const signingString = [
+    `(request-target): get ${url.pathname}${url.search}`,
+    `host: ${url.host}`,
+    `date: ${date}`,
+  ].join('\n');
+
+  return {
+    ...headers,
+    'Date': date,
+    'Signature': `keyId="${actor.keyId}",algorithm="rsa-sha256",headers="(request-target) host date",signature="${signRsaSha256(actor, signingString)}"`,
+  };
+}
+
+/**
+ * Sign a GET with RFC 9421 HTTP Message Signatures
+ */
+function signRfc9421(actor: InstanceActor, url: URL, headers: Record<string, string>): Record<string, string> {
+  const signatureParams = `("@method" "@target-uri");created=${Math.floor(Date.now() / 1000)};keyid="${actor.keyId}";alg="rsa-v1_5-sha256"`;
+  const signatureBase = [
+    '"@method": GET',
+    `"@target-uri": ${url.href}`,
+    `"@signature-params": ${signatureParams}`,
+  ].join('\n');
+
+  return {
+    ...headers,
+    'Date': new Date().toUTCString(),
+    'Signature-Input': `sig1=${signatureParams}`,
+    'Signature': `sig1=:${signRsaSha256(actor, signatureBase)}:`,
+  };
+}
+
+/**
+ * GET an ActivityPub document, signed as the instance actor when a key is configured
+ * Draft-cavage is sent first; hosts that answer 401/403 with Accept-Signature get RFC 9421 from then on
+ * @throws When the URL is not http(s) on a public host; most URLs come from remote documents
+ */
+export async function signedFetch(url: string, headers: Record<string, string> = {}): Promise<Response> {
+  if (!isPublicUrl(url)) {
+    throw new Error(`Refusing to fetch ${url}: not a public http(s) URL`);
+  }
+
+  const actor = getInstanceActor();
+  if (!actor) {
+    return fetch(url, { headers });
+  }
+
+  const target = new URL(url);
+  if (rfc9421Hosts.has(target.host)) {
+    return fetch(url, { headers: signRfc9421(actor, target, headers) });
+  }
+
+  const response = await fetch(url, { headers: signCavage(actor, target, headers) });
+  if ((response.status === 401 || response.status === 403) && response.headers.has('accept-signature')) {
+    rfc9421Hosts.add(target.host);
+    return fetch(url, { headers: signRfc9421(actor, target, headers) });
+  }
+
+  return response;
+}
@@ -309,6 +309,20 @@ export class ImageGenerator {
       }
     }
 
+    // Keep the link preview card in the export
+    const linkCardContainer = clone.querySelector('#link-card-container') as HTMLElement;
+    if (linkCardContainer && linkCardContainer.children.length > 0) {
+      linkCardContainer.style.visibility = 'visible';
+      linkCardContainer.style.opacity = '1';
+    }
+
+    // Keep the quoted post card (with its own media) in the export
+    const quoteContainer = clone.querySelector('#quote-container') as HTMLElement;
+    if (quoteContainer && quoteContainer.children.length > 0) {
+      quoteContainer.style.visibility = 'visible';
+      quoteContainer.style.opacity = '1';
+    }
+
     // Ensure all images in the clone are properly sized and loaded
     const images = clone.querySelectorAll('img');
     images.forEach(img => {
@@ -662,6 +676,8 @@ export class ImageGenerator {
     const contentEl = domCache.getElement('style-a-content');
     const cwBannerEl = domCache.getElement('content-warning-banner');
     const cwTextEl = domCache.getElement('content-warning-text');
+    const titleBlockEl = domCache.getElement('post-title-block') as HTMLElement | null;
+    const replyContextEl = domCache.getElement('reply-context') as HTMLElement | null;
 
     if (!contentEl) {
       console.warn('Content element for alt text not found.');
@@ -669,6 +685,12 @@ export class ImageGenerator {
     }
 
     let altText = '';
+
+    // "Replying to @user" line of replies
+    if (replyContextEl && !replyContextEl.classList.contains('hidden') && replyContextEl.innerText.trim()) {
+      altText += `${replyContextEl.innerText.trim()}\n\n`;
+    }
+
     // Check if Content Warning (CW) exists and is visible
     const isCwVisible = cwBannerEl && !cwBannerEl.classList.contains('hidden');
 
@@ -677,6 +699,11 @@ export class ImageGenerator {
       altText += `CW: ${cwTextEl.textContent.trim()}\n\n`;
     }
 
+    // Community and title of link aggregator posts
+    if (titleBlockEl && !titleBlockEl.classList.contains('hidden') && titleBlockEl.innerText.trim()) {
+      altText += `${titleBlockEl.innerText.trim()}\n\n`;
+    }
+
     // Use innerText to preserve line breaks and formatting for screen readers
     altText += (contentEl as HTMLElement).innerText;
 
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from './markdownRenderer';
+
+describe('renderMarkdown', () => {
+  it('renders links', () => {
+    expect(renderMarkdown('[site](https://example.com/)')).toBe('<p><a href="https://example.com/">site</a></p>');
+  });
+
+  it('keeps balanced parentheses in link URLs', () => {
+    expect(renderMarkdown('[Foo](https://en.wikipedia.org/wiki/Foo_(bar)) after'))
+      .toBe('<p><a href="https://en.wikipedia.org/wiki/Foo_(bar)">Foo</a> after</p>');
+  });
+
+  it('keeps only the label of links with a rejected URL', () => {
+    expect(renderMarkdown('[x](javascript:alert(1))')).toBe('<p>x</p>');
+    expect(renderMarkdown('![img](data:image/png;base64,AAAA) text')).toBe('<p>img text</p>');
+  });
+
+  it('escapes raw HTML', () => {
+    expect(renderMarkdown('<img src=x onerror=alert(1)>')).toBe('<p>&lt;img src=x onerror=alert(1)&gt;</p>');
+  });
+
+  it('renders emphasis outside code spans only', () => {
+    expect(renderMarkdown('**bold** and `*code*`')).toBe('<p><strong>bold</strong> and <code>*code*</code></p>');
+  });
+
+  it('renders lists, headings and quotes', () => {
+    expect(renderMarkdown('# Title\n\n- a\n- b\n\n> quoted')).toBe('<h1>Title</h1><ul><li>a</li><li>b</li></ul><blockquote><p>quoted</p></blockquote>');
+  });
+});
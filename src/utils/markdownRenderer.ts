@@ -0,0 +1,162 @@
+/**
+ * Small Markdown-to-HTML renderer for platforms that store posts as Markdown (Lemmy and friends)
+ * Covers the subset used in posts and comments; the output still goes through sanitizeHtml
+ */
+
+import { escapeHtml, sanitizeUrl } from './htmlSanitizer';
+
+const PLACEHOLDER = '\u0000';
+
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s{0,3}(```|~~~)/;
+// Lemmy spoiler blocks: "::: spoiler title" ... ":::"
+const SPOILER_PATTERN = /^:::\s*spoiler\s*(.*)$/;
+
+/**
+ * Build a link, dropping it (but keeping the label) when the URL isn't http(s)
+ */
+function renderLink(escapedUrl: string, label: string): string {
+  const href = sanitizeUrl(escapedUrl);
+  return href ? `<a href="${escapeHtml(href)}">${label}</a>` : label;
+}
+
+/**
+ * Render inline Markdown: code spans, links, emphasis, strikethrough and Lemmy's sub/superscript
+ */
+function renderInline(text: string): string {
+  // Code spans and links are stashed so emphasis markers inside them are left alone
+  const stash: string[] = [];
+  const keep = (html: string) => `${PLACEHOLDER}${stash.push(html) - 1}${PLACEHOLDER}`;
+
+  let html = escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_, code: string) => keep(`<code>${code}</code>`))
+    // Inline images are shown as links; there's no room for them in the card
+    // URLs may contain balanced parentheses (Wikipedia articles, or a rejected `javascript:f(1)`)
+    .replace(/!?\[([^\]]*)\]\(\s*((?:[^()\s]|\([^()\s]*\))+)(?:\s+&quot;.*?&quot;)?\s*\)/g, (_, label: string, url: string) => keep(renderLink(url, label || url)))
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, url: string) => keep(renderLink(url, url)))
+    .replace(/(^|[\s(])(https?:\/\/[^\s<]*[^\s<.,:;!?)])/g, (_, before: string, url: string) => before + keep(renderLink(url, url)));
+
+  html = html
+    .replace(/\*\*(?=\S)(.+?)\*\*|__(?=\S)(.+?)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(?=\S)([^*]+?)\*|(^|[^\w])_(?=\S)([^_]+?)_(?!\w)/g, (_, a?: string, before?: string, b?: string) => (a !== undefined ? `<em>${a}</em>` : `${before}<em>${b}</em>`))
+    .replace(/~~(?=\S)(.+?)~~/g, '<del>$1</del>')
+    .replace(/~([^\s~]+)~/g, '<sub>$1</sub>')
+    .replace(/\^([^\s^]+)\^/g, '<sup>$1</sup>');
+
+  return html.replace(new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g'), (_, index: string) => stash[Number(index)]);
+}
+
+/**
+ * Render Markdown to HTML
+ */
+export function renderMarkdown(markdown: string): string {
+  if (!markdown) {
+    return '';
+  }
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(line => renderInline(line.trim())).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const spoiler = line.match(SPOILER_PATTERN);
+    if (spoiler) {
+      // Spoiler content stays hidden in the image; only the summary is shown
+      flushParagraph();
+      i++;
+      while (i < lines.length && lines[i].trim() !== ':::') {
+        i++;
+      }
+      i++;
+      blocks.push(`<p><i>${renderInline(spoiler[1] || 'Spoiler')}</i></p>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s{0,3}>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s{0,3}>\s?/, ''));
+        i++;
+      }
+      blocks.push(`<blockquote>${renderMarkdown(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      flushParagraph();
+      const ordered = !listItem[1];
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM_PATTERN);
+        if (item && (!item[1]) === ordered) {
+          items.push(item[3]);
+        } else if (items.length > 0 && /^\s+\S/.test(lines[i]) && !LIST_ITEM_PATTERN.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return blocks.join('');
+}
@@ -0,0 +1,190 @@
+/**
+ * MFM (Misskey Flavored Markdown) to HTML renderer for Misskey notes and its forks
+ * Only the static subset makes sense in an image; animations render as their plain content (first frame)
+ * The output still goes through sanitizeHtml
+ */
+
+import { escapeHtml, sanitizeUrl } from './htmlSanitizer';
+
+const PLACEHOLDER = '\u0000';
+
+const FENCE_PATTERN = /^```/;
+// Innermost `$[name.args content]` call; content can't contain brackets, so nested calls resolve inside out
+const FUNCTION_PATTERN = /\$\[([a-zA-Z0-9]+)((?:\.[^\s\]]*)?)\s([^[\]]*?)\]/g;
+const FONT_FAMILIES = new Set(['serif', 'monospace', 'cursive', 'fantasy']);
+const COLOR_PATTERN = /^(?:[0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+/**
+ * Build a link, dropping it (but keeping the label) when the URL isn't http(s)
+ */
+function renderLink(escapedUrl: string, label: string, className?: string): string {
+  const href = sanitizeUrl(escapedUrl);
+  return href ? `<a href="${escapeHtml(href)}"${className ? ` class="${className}"` : ''}>${label}</a>` : label;
+}
+
+/**
+ * Parse function arguments (`.color=f00` or `.serif,speed=2s`) into a map
+ */
+function parseArguments(rawArguments: string): Map<string, string> {
+  const args = new Map<string, string>();
+  rawArguments.replace(/^\./, '').split(',').filter(Boolean).forEach(argument => {
+    const [key, value = ''] = argument.split('=');
+    args.set(key, value);
+  });
+  return args;
+}
+
+/**
+ * Render a `$[...]` function call with already rendered content
+ */
+function renderFunction(name: string, rawArguments: string, content: string): string {
+  const args = parseArguments(rawArguments);
+
+  switch (name) {
+    case 'x2':
+    case 'x3':
+    case 'x4':
+      return `<span class="mfm-${name}">${content}</span>`;
+    case 'font': {
+      const family = [...args.keys()].find(key => FONT_FAMILIES.has(key));
+      return family ? `<span class="mfm-font-${family}">${content}</span>` : content;
+    }
+    case 'fg':
+    case 'bg': {
+      const color = args.get('color') || '';
+      if (!COLOR_PATTERN.test(color)) {
+        return content;
+      }
+      return `<span style="${name === 'fg' ? 'color' : 'background-color'}: #${color}">${content}</span>`;
+    }
+    case 'ruby': {
+      const parts = content.match(/^(\S+)\s+([\s\S]+)$/);
+      return parts ? `<ruby>${parts[1]}<rp>(</rp><rt>${parts[2]}</rt><rp>)</rp></ruby>` : content;
+    }
+    default:
+      // Animations (tada, jelly, spin, rainbow, ...) and unsupported functions keep just their content
+      return content;
+  }
+}
+
+/**
+ * Render inline MFM: code, links, mentions, hashtags, emphasis, inline tags and functions
+ */
+function renderInline(text: string, domain: string): string {
+  // Code, links, mentions and hashtags are stashed so emphasis markers inside them are left alone
+  const stash: string[] = [];
+  const keep = (html: string) => `${PLACEHOLDER}${stash.push(html) - 1}${PLACEHOLDER}`;
+
+  let html = escapeHtml(text)
+    .replace(/&lt;plain&gt;([\s\S]*?)&lt;\/plain&gt;/g, (_, plain: string) => keep(plain))
+    .replace(/`([^`\n]+)`/g, (_, code: string) => keep(`<code>${code}</code>`))
+    // `?[label](url)` is a link without the URL preview
+    .replace(/\??\[([^\]]*)\]\(\s*([^)\s]+)\s*\)/g, (_, label: string, url: string) => keep(renderLink(url, label || url)))
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, url: string) => keep(renderLink(url, url)))
+    .replace(/(^|[^\w/])(https?:\/\/[^\s<[\]]*[^\s<[\].,:;!?)])/g, (_, before: string, url: string) => before + keep(renderLink(url, url)))
+    .replace(/(^|[^\w@.])@([\w-]+)(?:@([\w-]+(?:\.[\w-]+)+))?/g, (_, before: string, username: string, host?: string) => {
+      const label = `@${username}${host ? `@${host}` : ''}`;
+      return before + keep(renderLink(`https://${host || domain}/@${username}`, label, 'mention'));
+    })
+    .replace(/(^|[\s(（])#([^\s#.,!?'"()[\]:;&<>（）「」]+)/g, (match, before: string, tag: string) => {
+      if (/^\d+$/.test(tag)) {
+        return match;
+      }
+      return before + keep(renderLink(`https://${domain}/tags/${encodeURIComponent(tag)}`, `#${tag}`, 'hashtag'));
+    });
+
+  html = html
+    .replace(/\*\*(?=\S)(.+?)\*\*|__(?=\S)(.+?)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(?=\S)([^*]+?)\*|(^|[^\w])_(?=\S)([^_]+?)_(?!\w)/g, (_, a?: string, before?: string, b?: string) => (a !== undefined ? `<em>${a}</em>` : `${before}<em>${b}</em>`))
+    .replace(/~~(?=\S)(.+?)~~/g, '<del>$1</del>')
+    .replace(/&lt;(b|i|s|small)&gt;([\s\S]*?)&lt;\/\1&gt;/g, (_, tag: string, content: string) => {
+      const htmlTag = { b: 'strong', i: 'em', s: 'del', small: 'small' }[tag];
+      return `<${htmlTag}>${content}</${htmlTag}>`;
+    });
+
+  let previous;
+  do {
+    previous = html;
+    html = html.replace(FUNCTION_PATTERN, (_, name: string, args: string, content: string) => renderFunction(name, args, content));
+  } while (html !== previous);
+
+  return html.replace(new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g'), (_, index: string) => stash[Number(index)]);
+}
+
+/**
+ * Render MFM to HTML
+ * @param domain - Instance the note comes from, used for local mention and hashtag links
+ */
+export function renderMfm(text: string, domain: string): string {
+  if (!text) {
+    return '';
+  }
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${renderInline(paragraph.join('\n'), domain).replace(/\n/g, '<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quoted.push(lines[i].replace(/^>\s?/, ''));
+        i++;
+      }
+      blocks.push(`<blockquote>${renderMfm(quoted.join('\n'), domain)}</blockquote>`);
+      continue;
+    }
+
+    if (line.trimStart().startsWith('<center>')) {
+      // <center> blocks can span several lines
+      flushParagraph();
+      const centered: string[] = [];
+      while (i < lines.length) {
+        centered.push(lines[i]);
+        i++;
+        if (lines[i - 1].includes('</center>')) {
+          break;
+        }
+      }
+      const inner = centered.join('\n').replace(/^\s*<center>/, '').replace(/<\/center>\s*$/, '').trim();
+      blocks.push(`<center>${renderInline(inner, domain).replace(/\n/g, '<br>')}</center>`);
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return blocks.join('');
+}
@@ -0,0 +1,244 @@
+/**
+ * OAuth 2 login against Mastodon-API instances (authorization code with PKCE)
+ * Runs entirely in the browser: the app credentials and the access token live in localStorage
+ * and the token is only sent along with /api/fetch-post requests for posts on the same instance.
+ */
+
+import { OAUTH_CONFIG } from '../constants';
+
+export interface OAuthSession {
+  instance: string;
+  accessToken: string;
+  acct?: string; // Logged-in account, shown next to the logout control
+}
+
+interface OAuthApp {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+interface PendingAuthorization {
+  instance: string;
+  state: string;
+  codeVerifier: string;
+}
+
+/**
+ * Encode bytes as base64url without padding (RFC 7636)
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomString(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Normalize user input (`mastodon.social`, `https://mastodon.social/`, `@user@mastodon.social`) to a host name
+ */
+export function normalizeInstance(input: string): string | null {
+  const value = input.trim().replace(/^@?[^@\s]+@(?=[^@\s]+$)/, '');
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export class OAuthClient {
+  /**
+   * Get the current session, if the user is logged in
+   */
+  getSession(): OAuthSession | null {
+    return this.readJson<OAuthSession>(localStorage, OAUTH_CONFIG.SESSION_STORAGE_KEY);
+  }
+
+  /**
+   * Start the login: register the app (once per instance) and redirect to the instance's authorization page
+   */
+  async login(instanceInput: string): Promise<void> {
+    const instance = normalizeInstance(instanceInput);
+    if (!instance) {
+      throw new Error('Please enter your instance, e.g. mastodon.social');
+    }
+
+    const app = await this.getOrRegisterApp(instance);
+    const codeVerifier = randomString(48);
+    const state = randomString();
+    const challenge = base64UrlEncode(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))));
+
+    const pending: PendingAuthorization = { instance, state, codeVerifier };
+    sessionStorage.setItem(OAUTH_CONFIG.PENDING_STORAGE_KEY, JSON.stringify(pending));
+
+    const authorizeUrl = new URL(`https://${instance}/oauth/authorize`);
+    authorizeUrl.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: app.clientId,
+      redirect_uri: app.redirectUri,
+      scope: OAUTH_CONFIG.SCOPES,
+      state,
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+    }).toString();
+
+    window.location.assign(authorizeUrl.toString());
+  }
+
+  /**
+   * Finish the login when the instance redirects back with `?code=...&state=...`
+   * @returns the new session, or null when the page wasn't opened from an authorization redirect
+   */
+  async handleRedirect(): Promise<OAuthSession | null> {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('code');
+    const error = params.get('error');
+    if (!code && !error) {
+      return null;
+    }
+
+    const pending = this.readJson<PendingAuthorization>(sessionStorage, OAUTH_CONFIG.PENDING_STORAGE_KEY);
+    sessionStorage.removeItem(OAUTH_CONFIG.PENDING_STORAGE_KEY);
+
+    // Drop the authorization parameters from the address bar
+    const cleanUrl = new URL(window.location.href);
+    ['code', 'state', 'error', 'error_description'].forEach(name => cleanUrl.searchParams.delete(name));
+    window.history.replaceState(null, '', cleanUrl.toString());
+
+    if (error) {
+      throw new Error(params.get('error_description') || 'Login was cancelled');
+    }
+
+    if (!pending || params.get('state') !== pending.state) {
+      throw new Error('Login failed: the authorization response does not match this browser session');
+    }
+
+    const app = this.getApps()[pending.instance];
+    if (!app) {
+      throw new Error('Login failed: the app registration for this instance is missing');
+    }
+
+    const tokenResponse = await fetch(`https://${pending.instance}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        grant_type: 'authorization_code',
+        code,
+        client_id: app.clientId,
+        client_secret: app.clientSecret,
+        redirect_uri: app.redirectUri,
+        code_verifier: pending.codeVerifier,
+        scope: OAUTH_CONFIG.SCOPES,
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      throw new Error(`Login failed: ${pending.instance} did not issue a token (${tokenResponse.status})`);
+    }
+
+    const { access_token: accessToken } = await tokenResponse.json();
+    if (typeof accessToken !== 'string' || !accessToken) {
+      throw new Error(`Login failed: ${pending.instance} returned no access token`);
+    }
+
+    const session: OAuthSession = { instance: pending.instance, accessToken };
+
+    // The account name is only used as a label, so a failed lookup doesn't fail the login
+    try {
+      const accountResponse = await fetch(`https://${pending.instance}/api/v1/accounts/verify_credentials`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      if (accountResponse.ok) {
+        const account = await accountResponse.json();
+        session.acct = typeof account?.acct === 'string' ? `@${account.acct}@${pending.instance}` : undefined;
+      }
+    } catch (accountError) {
+      console.warn('Failed to look up the logged-in account:', accountError);
+    }
+
+    localStorage.setItem(OAUTH_CONFIG.SESSION_STORAGE_KEY, JSON.stringify(session));
+    return session;
+  }
+
+  /**
+   * Log out: revoke the token on the instance (best effort) and forget it locally
+   */
+  async logout(): Promise<void> {
+    const session = this.getSession();
+    localStorage.removeItem(OAUTH_CONFIG.SESSION_STORAGE_KEY);
+
+    const app = session ? this.getApps()[session.instance] : undefined;
+    if (!session || !app) {
+      return;
+    }
+
+    try {
+      await fetch(`https://${session.instance}/oauth/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          client_id: app.clientId,
+          client_secret: app.clientSecret,
+          token: session.accessToken,
+        }),
+      });
+    } catch (error) {
+      console.warn('Failed to revoke the access token:', error);
+    }
+  }
+
+  /**
+   * Reuse the app registered for this instance and redirect URI, or register a new one
+   */
+  private async getOrRegisterApp(instance: string): Promise<OAuthApp> {
+    const redirectUri = `${window.location.origin}${window.location.pathname}`;
+    const apps = this.getApps();
+    if (apps[instance]?.redirectUri === redirectUri) {
+      return apps[instance];
+    }
+
+    const response = await fetch(`https://${instance}/api/v1/apps`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_name: OAUTH_CONFIG.CLIENT_NAME,
+        redirect_uris: redirectUri,
+        scopes: OAUTH_CONFIG.SCOPES,
+        website: OAUTH_CONFIG.WEBSITE,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${instance} does not accept app registrations (${response.status}). Only instances with a Mastodon-compatible API are supported.`);
+    }
+
+    const registration = await response.json();
+    if (!registration?.client_id || !registration?.client_secret) {
+      throw new Error(`${instance} returned an invalid app registration`);
+    }
+
+    const app: OAuthApp = { clientId: registration.client_id, clientSecret: registration.client_secret, redirectUri };
+    localStorage.setItem(OAUTH_CONFIG.APPS_STORAGE_KEY, JSON.stringify({ ...apps, [instance]: app }));
+    return app;
+  }
+
+  private getApps(): Record<string, OAuthApp> {
+    return this.readJson<Record<string, OAuthApp>>(localStorage, OAUTH_CONFIG.APPS_STORAGE_KEY) || {};
+  }
+
+  private readJson<T>(storage: Storage, key: string): T | null {
+    try {
+      const value = storage.getItem(key);
+      return value ? JSON.parse(value) as T : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const oauthClient = new OAuthClient();
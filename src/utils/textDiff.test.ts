@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords } from './textDiff';
+
+describe('diffWords', () => {
+  it('marks changed words and keeps the rest', () => {
+    expect(diffWords('the quick brown fox', 'the slow brown fox')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' brown fox' },
+    ]);
+  });
+
+  it('handles additions at the end', () => {
+    expect(diffWords('hello', 'hello world')).toEqual([
+      { type: 'equal', text: 'hello' },
+      { type: 'added', text: ' world' },
+    ]);
+  });
+
+  it('returns a single part for identical texts', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('diffs only the changed middle of long revisions', () => {
+    const words = Array.from({ length: 5000 }, (_, index) => `w${index}`);
+    const before = words.join(' ');
+    const after = [...words.slice(0, 2500), 'inserted', ...words.slice(2500)].join(' ');
+
+    expect(diffWords(before, after)).toEqual([
+      { type: 'equal', text: `${words.slice(0, 2500).join(' ')} ` },
+      { type: 'added', text: 'inserted ' },
+      { type: 'equal', text: words.slice(2500).join(' ') },
+    ]);
+  });
+
+  it('falls back to one removal and one addition for very large changes', () => {
+    const before = Array.from({ length: 3000 }, (_, index) => `a${index}`).join(' ');
+    const after = Array.from({ length: 3000 }, (_, index) => `b${index}`).join(' ');
+
+    expect(diffWords(`intro ${before}`, `intro ${after}`)).toEqual([
+      { type: 'equal', text: 'intro ' },
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  });
+});
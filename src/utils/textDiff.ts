@@ -0,0 +1,89 @@
+/**
+ * Word-level diff for comparing post revisions
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Words and the whitespace between them are separate tokens, so spacing survives the diff
+const TOKEN_PATTERN = /\s+|[^\s]+/g;
+
+// Above this many changed tokens on either side the LCS table gets too large for the main thread,
+// and the revisions are shown as one removal and one addition instead
+const MAX_DIFF_TOKENS = 2000;
+
+/**
+ * Diff two texts word by word (longest common subsequence)
+ * The common prefix and suffix are split off first, so only the changed middle is compared.
+ * Adjacent tokens of the same type are merged into one part
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const beforeTokens = before.match(TOKEN_PATTERN) || [];
+  const afterTokens = after.match(TOKEN_PATTERN) || [];
+
+  let prefixLength = 0;
+  while (prefixLength < beforeTokens.length && prefixLength < afterTokens.length && beforeTokens[prefixLength] === afterTokens[prefixLength]) {
+    prefixLength++;
+  }
+  let suffixLength = 0;
+  while (
+    suffixLength < beforeTokens.length - prefixLength &&
+    suffixLength < afterTokens.length - prefixLength &&
+    beforeTokens[beforeTokens.length - 1 - suffixLength] === afterTokens[afterTokens.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const a = beforeTokens.slice(prefixLength, beforeTokens.length - suffixLength);
+  const b = afterTokens.slice(prefixLength, afterTokens.length - suffixLength);
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    if (!text) {
+      return;
+    }
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  push('equal', beforeTokens.slice(0, prefixLength).join(''));
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    push('removed', a.join(''));
+    push('added', b.join(''));
+  } else {
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        push('equal', a[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        push('removed', a[i++]);
+      } else {
+        push('added', b[j++]);
+      }
+    }
+    a.slice(i).forEach(token => push('removed', token));
+    b.slice(j).forEach(token => push('added', token));
+  }
+
+  push('equal', beforeTokens.slice(beforeTokens.length - suffixLength).join(''));
+
+  return parts;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { MockTranslationProvider, renderTranslatedView } from './translationProvider';
+import type { FediversePost } from '../types/activitypub';
+
+const post: FediversePost = {
+  id: '1',
+  content: '<p>Hallo <strong>Welt</strong></p>',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  account: { id: 'a', username: 'alice', displayName: 'Alice', url: 'https://example.social/@alice', acct: 'alice', platform: 'mastodon', emojis: [] },
+  attachments: [],
+  repliesCount: 0,
+  boostsCount: 0,
+  favouritesCount: 0,
+  sensitive: true,
+  spoilerText: 'Politik',
+  url: 'https://example.social/@alice/1',
+  platform: 'mastodon',
+  tags: [],
+  language: 'de',
+};
+
+describe('renderTranslatedView', () => {
+  it('shows the original without an attribution line', async () => {
+    const translation = await new MockTranslationProvider().translate(post, 'en');
+    expect(renderTranslatedView(post, translation, 'original')).toEqual({
+      content: post.content,
+      spoilerText: 'Politik',
+      attribution: null,
+    });
+  });
+
+  it('replaces the content and content warning with the translation', async () => {
+    const translation = await new MockTranslationProvider().translate(post, 'en');
+    expect(renderTranslatedView(post, translation, 'translated')).toEqual({
+      content: '<p>[en] Hallo <strong>[en] Welt</strong></p>',
+      spoilerText: '[en] Politik',
+      attribution: 'Translated from German by Mock',
+    });
+  });
+
+  it('shows the translation below the original', async () => {
+    const translation = await new MockTranslationProvider().translate(post, 'en');
+    const view = renderTranslatedView(post, translation, 'both');
+    expect(view.content).toBe(`${post.content}<div class="mt-3 pt-3 border-t border-gray-400 border-opacity-40"><p>[en] Hallo <strong>[en] Welt</strong></p></div>`);
+    expect(view.spoilerText).toBe('Politik / [en] Politik');
+    expect(view.attribution).toBe('Translated from German by Mock');
+  });
+
+  it('keeps the original while no translation is loaded', () => {
+    expect(renderTranslatedView(post, null, 'both')).toEqual({ content: post.content, spoilerText: 'Politik', attribution: null });
+  });
+
+  it('leaves out unknown source languages from the attribution', async () => {
+    const translation = await new MockTranslationProvider().translate({ ...post, language: undefined, spoilerText: '' }, 'fr');
+    const view = renderTranslatedView({ ...post, spoilerText: '' }, translation, 'translated');
+    expect(view.spoilerText).toBe('');
+    expect(view.attribution).toBe('Translated by Mock');
+  });
+});
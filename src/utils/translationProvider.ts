@@ -0,0 +1,215 @@
+/**
+ * Translation providers for post content
+ * Providers run in the browser and return sanitized HTML, so a translation renders exactly like the original content.
+ * New services plug in by implementing TranslationProvider and adding a case to createTranslationProvider.
+ */
+
+import { sanitizeHtml } from './htmlSanitizer';
+import type { FediversePost } from '../types/activitypub';
+
+export interface TranslationResult {
+  content: string; // Sanitized HTML
+  spoilerText: string;
+  sourceLanguage?: string; // Language the post was translated from, as detected or declared
+  targetLanguage: string;
+  provider: string; // Service named in the attribution line
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  /**
+   * Whether the provider can translate this post; the reason is shown to the user otherwise
+   */
+  supports(post: FediversePost): { supported: true } | { supported: false; reason: string };
+  translate(post: FediversePost, targetLanguage: string): Promise<TranslationResult>;
+}
+
+export type TranslationProviderId = 'none' | 'instance' | 'libretranslate' | 'mock';
+
+// Whether the card shows the original text, the translation, or the translation below the original
+export type TranslationMode = 'original' | 'translated' | 'both';
+
+export interface TranslatedView {
+  content: string; // Sanitized HTML
+  spoilerText: string;
+  attribution: string | null; // "Translated from X by Y", null while the original is shown
+}
+
+export interface TranslationSettings {
+  provider: TranslationProviderId;
+  instance?: string; // Instance the post was fetched from
+  accessToken?: string; // OAuth token, when logged in to that instance
+  libreTranslateUrl?: string;
+  libreTranslateApiKey?: string;
+}
+
+/**
+ * Mastodon's built-in translation (`POST /api/v1/statuses/:id/translate`, Mastodon 4.0+)
+ * Only works when the instance has a translation backend (DeepL, LibreTranslate) configured
+ */
+export class MastodonTranslationProvider implements TranslationProvider {
+  readonly name = 'Mastodon';
+
+  constructor(private readonly instance: string, private readonly accessToken?: string) {}
+
+  supports(post: FediversePost) {
+    // Status IDs are local to the instance, and only Mastodon exposes the endpoint
+    return post.platform === 'mastodon'
+      ? { supported: true as const }
+      : { supported: false as const, reason: 'Instance translation is only available for Mastodon posts' };
+  }
+
+  async translate(post: FediversePost, targetLanguage: string): Promise<TranslationResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    const response = await fetch(`https://${this.instance}/api/v1/statuses/${encodeURIComponent(post.id)}/translate`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ lang: targetLanguage }),
+    });
+
+    if (!response.ok) {
+      throw new Error(response.status === 404 || response.status === 503
+        ? `${this.instance} has no translation service configured`
+        : `${this.instance} could not translate this post (${response.status})`);
+    }
+
+    const translation = await response.json();
+    return {
+      content: sanitizeHtml(typeof translation?.content === 'string' ? translation.content : ''),
+      spoilerText: typeof translation?.spoiler_text === 'string' ? translation.spoiler_text : '',
+      sourceLanguage: translation?.detected_source_language || post.language,
+      targetLanguage,
+      // The backend the instance uses, e.g. "DeepL.com"
+      provider: typeof translation?.provider === 'string' && translation.provider ? translation.provider : this.instance,
+    };
+  }
+}
+
+/**
+ * LibreTranslate (`POST /translate`), public or self-hosted
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly name = 'LibreTranslate';
+
+  constructor(private readonly endpoint: string, private readonly apiKey?: string) {}
+
+  supports() {
+    return { supported: true as const };
+  }
+
+  async translate(post: FediversePost, targetLanguage: string): Promise<TranslationResult> {
+    // The content warning is translated in the same request
+    const texts = post.spoilerText ? [post.content, post.spoilerText] : [post.content];
+
+    const response = await fetch(`${this.endpoint.replace(/\/+$/, '')}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q: texts,
+        // Declared languages are often wrong or regional (en-GB), so let the service detect it
+        source: 'auto',
+        target: targetLanguage,
+        format: 'html',
+        api_key: this.apiKey || undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(typeof error?.error === 'string' ? `LibreTranslate: ${error.error}` : `LibreTranslate could not translate this post (${response.status})`);
+    }
+
+    const translation = await response.json();
+    const translatedTexts: unknown[] = Array.isArray(translation?.translatedText) ? translation.translatedText : [translation?.translatedText];
+    const detectedLanguage = Array.isArray(translation?.detectedLanguage) ? translation.detectedLanguage[0] : translation?.detectedLanguage;
+
+    return {
+      content: sanitizeHtml(typeof translatedTexts[0] === 'string' ? translatedTexts[0] : ''),
+      spoilerText: post.spoilerText && typeof translatedTexts[1] === 'string' ? translatedTexts[1] : '',
+      sourceLanguage: detectedLanguage?.language || post.language,
+      targetLanguage,
+      provider: this.name,
+    };
+  }
+}
+
+/**
+ * Local stand-in that needs no network: every text run is prefixed with the target language
+ * Used for development and tests of the translation views
+ */
+export class MockTranslationProvider implements TranslationProvider {
+  readonly name = 'Mock';
+
+  constructor(private readonly delayMs = 0) {}
+
+  supports() {
+    return { supported: true as const };
+  }
+
+  async translate(post: FediversePost, targetLanguage: string): Promise<TranslationResult> {
+    if (this.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    }
+
+    const marker = `[${targetLanguage}]`;
+    return {
+      content: sanitizeHtml(post.content.replace(/(^|>)([^<]*[^<\s][^<]*)/g, (_, tagEnd: string, text: string) => `${tagEnd}${marker} ${text}`)),
+      spoilerText: post.spoilerText ? `${marker} ${post.spoilerText}` : '',
+      sourceLanguage: post.language,
+      targetLanguage,
+      provider: this.name,
+    };
+  }
+}
+
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Content, content warning and attribution line of a post in the chosen translation mode
+ * @param translation - Translation of the post, null while none is loaded
+ */
+export function renderTranslatedView(post: FediversePost, translation: TranslationResult | null, mode: TranslationMode): TranslatedView {
+  if (!translation || mode === 'original') {
+    return { content: post.content, spoilerText: post.spoilerText, attribution: null };
+  }
+
+  const source = translation.sourceLanguage ? ` from ${languageName(translation.sourceLanguage)}` : '';
+  return {
+    content: mode === 'both'
+      ? `${post.content}<div class="mt-3 pt-3 border-t border-gray-400 border-opacity-40">${translation.content}</div>`
+      : translation.content,
+    spoilerText: translation.spoilerText
+      ? (mode === 'both' ? `${post.spoilerText} / ${translation.spoilerText}` : translation.spoilerText)
+      : post.spoilerText,
+    attribution: `Translated${source} by ${translation.provider}`,
+  };
+}
+
+/**
+ * Create the provider for the current settings
+ * @returns null when translation is off or the chosen provider is missing its configuration
+ */
+export function createTranslationProvider(settings: TranslationSettings): TranslationProvider | null {
+  switch (settings.provider) {
+    case 'instance':
+      return settings.instance ? new MastodonTranslationProvider(settings.instance, settings.accessToken) : null;
+    case 'libretranslate':
+      return settings.libreTranslateUrl && /^https?:\/\//i.test(settings.libreTranslateUrl)
+        ? new LibreTranslateProvider(settings.libreTranslateUrl, settings.libreTranslateApiKey)
+        : null;
+    case 'mock':
+      return new MockTranslationProvider();
+    default:
+      return null;
+  }
+}
@@ -1,9 +1,14 @@
 import { templateManager } from './templateManager';
 import { imageGenerator } from './imageGenerator';
 import { domCache } from './domCache';
-import { DOM_ELEMENT_IDS } from '../constants';
+import { ARTICLE_CONFIG, DOM_ELEMENT_IDS, HISTORY_CONFIG, REACTION_CONFIG } from '../constants';
 import { FediverseClient } from './fediverseClient';
-import type { FediversePost, FediverseAttachment, FediversePoll } from '../types/activitypub';
+import { escapeHtml, htmlToText } from './htmlSanitizer';
+import { diffWords } from './textDiff';
+import { oauthClient } from './oauthClient';
+import { createTranslationProvider, renderTranslatedView } from './translationProvider';
+import type { TranslationMode, TranslationProviderId, TranslationResult } from './translationProvider';
+import type { FediversePost, FediverseVisibility, FediverseAttachment, FediversePoll, FediverseEmoji, FediverseThread, FediverseRevision, FediverseLinkCard, FediverseReaction, FediverseVideo, FediverseEvent, FediverseBook } from '../types/activitypub';
 
 interface PrefetchedMetaData {
     postData: FediversePost;
@@ -17,6 +22,14 @@ interface StreamedImageData {
     dataUrl: string;
 }
 
+// Footer badge per audience: label and icon path (24x24 outline)
+const VISIBILITY_BADGES: Record<FediverseVisibility, { label: string; icon: string }> = {
+    public: { label: 'Public', icon: 'M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9' },
+    unlisted: { label: 'Unlisted', icon: 'M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z' },
+    private: { label: 'Followers only', icon: 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z' },
+    direct: { label: 'Mentioned people only', icon: 'M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.206' },
+};
+
 document.addEventListener('DOMContentLoaded', () => {
     const urlInput = domCache.getElement(DOM_ELEMENT_IDS.MASTODON_URL) as HTMLInputElement;
     const generateBtn = domCache.getElement(DOM_ELEMENT_IDS.GENERATE_BTN) as HTMLButtonElement;
@@ -37,11 +50,37 @@ document.addEventListener('DOMContentLoaded', () => {
     const contentWarningText = domCache.getElement(DOM_ELEMENT_IDS.CONTENT_WARNING_TEXT) as HTMLSpanElement;
     const contentWarningToggle = domCache.getElement(DOM_ELEMENT_IDS.CONTENT_WARNING_TOGGLE) as HTMLInputElement;
     const contentWarningToggleContainer = domCache.getElement(DOM_ELEMENT_IDS.CONTENT_WARNING_TOGGLE_CONTAINER) as HTMLDivElement;
+    const useOriginalPostDataToggle = domCache.getElement(DOM_ELEMENT_IDS.USE_ORIGINAL_POST_DATA) as HTMLInputElement;
+    const threadModeToggle = domCache.getElement(DOM_ELEMENT_IDS.THREAD_MODE_TOGGLE) as HTMLInputElement;
+    const threadOptionsContainer = domCache.getElement(DOM_ELEMENT_IDS.THREAD_OPTIONS_CONTAINER) as HTMLDivElement;
+    const threadDepthSelect = domCache.getElement(DOM_ELEMENT_IDS.THREAD_DEPTH) as HTMLSelectElement;
+    const threadSelfRepliesToggle = domCache.getElement(DOM_ELEMENT_IDS.THREAD_SELF_REPLIES_TOGGLE) as HTMLInputElement;
+    const articleParagraphsSelect = domCache.getElement(DOM_ELEMENT_IDS.ARTICLE_PARAGRAPHS) as HTMLSelectElement;
+    const editHistoryToggle = domCache.getElement(DOM_ELEMENT_IDS.EDIT_HISTORY_TOGGLE) as HTMLInputElement;
+    const resolveInstanceInput = domCache.getElement(DOM_ELEMENT_IDS.RESOLVE_INSTANCE) as HTMLInputElement;
+    const resolveTokenInput = domCache.getElement(DOM_ELEMENT_IDS.RESOLVE_TOKEN) as HTMLInputElement;
+    const translationProviderSelect = domCache.getElement(DOM_ELEMENT_IDS.TRANSLATION_PROVIDER) as HTMLSelectElement;
+    const translationOptionsContainer = domCache.getElement(DOM_ELEMENT_IDS.TRANSLATION_OPTIONS) as HTMLDivElement;
+    const translationTargetInput = domCache.getElement(DOM_ELEMENT_IDS.TRANSLATION_TARGET) as HTMLInputElement;
+    const translationModeSelect = domCache.getElement(DOM_ELEMENT_IDS.TRANSLATION_MODE) as HTMLSelectElement;
+    const libreTranslateOptions = domCache.getElement(DOM_ELEMENT_IDS.LIBRETRANSLATE_OPTIONS) as HTMLDivElement;
+    const libreTranslateUrlInput = domCache.getElement(DOM_ELEMENT_IDS.LIBRETRANSLATE_URL) as HTMLInputElement;
+    const libreTranslateKeyInput = domCache.getElement(DOM_ELEMENT_IDS.LIBRETRANSLATE_KEY) as HTMLInputElement;
+    const oauthLoggedOut = domCache.getElement(DOM_ELEMENT_IDS.OAUTH_LOGGED_OUT) as HTMLDivElement;
+    const oauthLoggedIn = domCache.getElement(DOM_ELEMENT_IDS.OAUTH_LOGGED_IN) as HTMLDivElement;
+    const oauthInstanceInput = domCache.getElement(DOM_ELEMENT_IDS.OAUTH_INSTANCE) as HTMLInputElement;
+    const oauthLoginBtn = domCache.getElement(DOM_ELEMENT_IDS.OAUTH_LOGIN_BTN) as HTMLButtonElement;
+    const oauthLogoutBtn = domCache.getElement(DOM_ELEMENT_IDS.OAUTH_LOGOUT_BTN) as HTMLButtonElement;
+    const oauthAccount = domCache.getElement(DOM_ELEMENT_IDS.OAUTH_ACCOUNT) as HTMLSpanElement;
 
     let postData: FediversePost | null = null;
+    let threadData: FediverseThread | null = null;
+    let historyData: FediverseRevision[] | null = null;
+    let translationData: TranslationResult | null = null;
+    let translationRequest = 0;
     let fetchedInstance = '';
     let imageMap: Record<string, string> = {};
-    let visibility = { stats: true, timestamp: true, instance: true, contentWarning: true };
+    let visibility = { stats: true, timestamp: true, edited: true, postVisibility: false, language: false, application: false, instance: true, replyContext: true, contentWarning: true };
     let eventSource: EventSource | null = null;
     let loadedImageUrls = new Set<string>();
     let failedImageUrls = new Set<string>();
@@ -88,6 +127,79 @@ document.addEventListener('DOMContentLoaded', () => {
         if (postData) renderPreview();
     });
 
+    // Boost unwrapping happens server-side, so the post has to be fetched again
+    useOriginalPostDataToggle?.addEventListener('change', () => {
+        if (postData) fetchFediversePost();
+    });
+
+    // Thread context is resolved server-side as well
+    threadModeToggle?.addEventListener('change', () => {
+        threadOptionsContainer?.classList.toggle('hidden', !threadModeToggle.checked);
+        if (postData) fetchFediversePost();
+    });
+    [threadDepthSelect, threadSelfRepliesToggle].forEach(control => {
+        control?.addEventListener('change', () => {
+            if (postData && threadModeToggle?.checked) fetchFediversePost();
+        });
+    });
+
+    // Earlier versions come from the instance API as well
+    editHistoryToggle?.addEventListener('change', () => {
+        if (postData) fetchFediversePost();
+    });
+
+    // Article truncation is purely presentational
+    articleParagraphsSelect?.addEventListener('change', () => {
+        if (postData) renderPreview();
+    });
+
+    // Translation runs in the browser against the chosen provider, after the post is fetched
+    if (translationTargetInput && !translationTargetInput.value) {
+        translationTargetInput.value = navigator.language.split('-')[0];
+    }
+    translationProviderSelect?.addEventListener('change', () => {
+        translationOptionsContainer?.classList.toggle('hidden', translationProviderSelect.value === 'none');
+        libreTranslateOptions?.classList.toggle('hidden', translationProviderSelect.value !== 'libretranslate');
+        updateTranslation();
+    });
+    [translationTargetInput, libreTranslateUrlInput, libreTranslateKeyInput].forEach(control => {
+        control?.addEventListener('change', () => updateTranslation());
+    });
+    translationModeSelect?.addEventListener('change', () => {
+        if (translationData) {
+            renderPreview();
+        } else {
+            updateTranslation();
+        }
+    });
+
+    // OAuth login; the instance redirects back to this page with an authorization code
+    renderOAuthState();
+    oauthClient.handleRedirect()
+        .then(session => {
+            if (session) renderOAuthState();
+        })
+        .catch(error => showError(error instanceof Error ? error.message : 'Login failed'));
+
+    oauthLoginBtn?.addEventListener('click', async () => {
+        oauthLoginBtn.disabled = true;
+        try {
+            await oauthClient.login(oauthInstanceInput?.value || '');
+        } catch (error) {
+            oauthLoginBtn.disabled = false;
+            showError(error instanceof Error ? error.message : 'Login failed');
+        }
+    });
+    oauthInstanceInput?.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter') oauthLoginBtn?.click();
+    });
+    oauthLogoutBtn?.addEventListener('click', async () => {
+        oauthLogoutBtn.disabled = true;
+        await oauthClient.logout();
+        oauthLogoutBtn.disabled = false;
+        renderOAuthState();
+    });
+
     visibilityCheckboxes.forEach(checkbox => {
         checkbox.addEventListener('change', () => {
             visibilityCheckboxes.forEach(cb => {
@@ -139,6 +251,8 @@ document.addEventListener('DOMContentLoaded', () => {
             previewStatus.className = 'text-sm text-blue-600';
         }
 
+        const oauthSession = oauthClient.getSession();
+
         try {
             // Use the Fediverse API to fetch the post
             const apiResponse = await fetch('/api/fetch-post', {
@@ -146,7 +260,20 @@ document.addEventListener('DOMContentLoaded', () => {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ url }),
+                body: JSON.stringify({
+                    url,
+                    useOriginalPostData: useOriginalPostDataToggle ? useOriginalPostDataToggle.checked : true,
+                    thread: threadModeToggle?.checked ? {
+                        depth: Number(threadDepthSelect?.value) || undefined,
+                        includeSelfReplies: threadSelfRepliesToggle ? threadSelfRepliesToggle.checked : true,
+                    } : undefined,
+                    history: editHistoryToggle?.checked || undefined,
+                    auth: oauthSession ? { instance: oauthSession.instance, token: oauthSession.accessToken } : undefined,
+                    resolveVia: resolveInstanceInput?.value.trim() ? {
+                        instance: resolveInstanceInput.value.trim(),
+                        token: resolveTokenInput?.value.trim() || undefined,
+                    } : undefined,
+                }),
             });
 
             if (!apiResponse.ok) {
@@ -160,6 +287,12 @@ document.addEventListener('DOMContentLoaded', () => {
 
             // Use the actual post data from the API
             postData = responseData.postData;
+            threadData = responseData.thread || null;
+            historyData = responseData.history || null;
+
+            // The previous post's translation no longer applies
+            translationData = null;
+            updateTranslation();
 
             // Use the image map from the server response if available
             if (responseData.imageMap) {
@@ -178,16 +311,18 @@ document.addEventListener('DOMContentLoaded', () => {
                 imageUrls = responseData.imageUrls;
             } else if (postData) {
                 // Otherwise collect image URLs from the post data
+                const displayPost = postData.reblog || postData;
                 imageUrls = [
-                    ...postData.attachments.map(att => att.url),
-                    ...(postData.account.avatar ? [postData.account.avatar] : []),
-                    ...postData.account.emojis.map(emoji => emoji.url)
+                    ...displayPost.attachments.map(att => att.url),
+                    ...(displayPost.account.avatar ? [displayPost.account.avatar] : []),
+                    ...displayPost.account.emojis.map(emoji => emoji.url)
                 ].flat().filter(Boolean) as string[];
             }
 
             // Show/hide content warning controls based on post sensitivity
             if (contentWarningToggleContainer && postData) {
-                if (postData.sensitive || postData.spoilerText) {
+                const displayPost = postData.reblog || postData;
+                if (displayPost.sensitive || displayPost.spoilerText) {
                     contentWarningToggleContainer.classList.remove('hidden');
                 } else {
                     contentWarningToggleContainer.classList.add('hidden');
@@ -338,6 +473,9 @@ document.addEventListener('DOMContentLoaded', () => {
         } catch (error) {
             showError(error instanceof Error ? error.message : 'An unknown error occurred');
             postData = null;
+            threadData = null;
+            historyData = null;
+            translationData = null;
             setGenerateButtonState(false);
         }
     }
@@ -359,13 +497,17 @@ document.addEventListener('DOMContentLoaded', () => {
         isRendering = true;
         pendingRender = false;
 
-        // Use the current post's data (no reblog handling for now as most platforms handle this differently)
-        const sourcePost: FediversePost = postData;
+        // Boosts are rendered as the original post with a "boosted by" header
+        const sourcePost: FediversePost = postData.reblog || postData;
+        const booster = postData.reblog ? postData.account : null;
+
+        // Translations replace the original text or follow it
+        const translatedView = renderTranslatedView(sourcePost, translationData, (translationModeSelect?.value || 'translated') as TranslationMode);
 
         // --- 1. Handle Content Warning ---
         if (contentWarningBanner && contentWarningText) {
             const hasContent = sourcePost.sensitive || !!sourcePost.spoilerText;
-            const warningText = sourcePost.spoilerText || 'Sensitive content';
+            const warningText = translatedView.spoilerText || 'Sensitive content';
             const shouldShow = hasContent && visibility.contentWarning;
 
             // Clear any existing debounce timer
@@ -444,75 +586,52 @@ document.addEventListener('DOMContentLoaded', () => {
 
         // --- 2. Process Content and Emojis ---
         // Sanitize and prepare the main post content.
-        // Special handling for PeerTube videos - show video title prominently
-        let contentHTML = sourcePost.content;
-        let isPeerTubeVideo = false;
+        let contentHTML = translatedView.content;
 
-        if (sourcePost.platform === 'peertube' && sourcePost.attachments.length > 0) {
-            isPeerTubeVideo = true;
-            const videoAttachment = sourcePost.attachments[0];
-            const videoTitle = videoAttachment.description || 'Video';
-            // For PeerTube, use ONLY the video title as content (no description)
-            contentHTML = `<div class="text-xl font-bold mb-3">${videoTitle}</div>`;
+        // Videos get a card with the first lines of their description below
+        if (sourcePost.video) {
+            contentHTML = `${buildVideoCardHTML(sourcePost.video)}${contentHTML ? `<div class="mt-3 line-clamp-4">${contentHTML}</div>` : ''}`;
         }
 
-        const tempDiv = document.createElement('div');
-        tempDiv.innerHTML = contentHTML;
-
-        // Fix Mastodon's link display: unwrap .invisible and .ellipsis spans to show full URLs
-        tempDiv.querySelectorAll('a').forEach(link => {
-            const allSpans = Array.from(link.querySelectorAll('span.invisible, span.ellipsis'));
-            allSpans.forEach(span => {
-                const textNode = document.createTextNode(span.textContent || '');
-                span.parentNode?.replaceChild(textNode, span);
-            });
-        });
+        // BookWyrm statuses show the book (and the quoted passage) above the text
+        if (sourcePost.book) {
+            contentHTML = `${buildBookHTML(sourcePost.book)}${contentHTML ? `<div class="mt-3">${contentHTML}</div>` : ''}`;
+        }
 
-        // Keep links in their original format for natural appearance
-        tempDiv.querySelectorAll('a:not(.mention):not(.hashtag)').forEach(link => {
-            // Ensure links have proper styling but keep original format
-            link.classList.add('text-blue-600', 'hover:text-blue-800');
-        });
+        // Events get a card with their date, place and participants above the description
+        if (sourcePost.event) {
+            contentHTML = `${buildEventCardHTML(sourcePost.event)}${contentHTML ? `<div class="mt-3">${contentHTML}</div>` : ''}`;
+        }
 
-        // Style hashtags in content to make them more visible
-        tempDiv.querySelectorAll('a.hashtag').forEach(hashtag => {
-            hashtag.classList.add('inline-block', 'text-blue-600', 'hover:text-blue-800', 'font-medium');
-        });
+        // Articles only show their opening paragraphs
+        if (sourcePost.article) {
+            const maxParagraphs = Number(articleParagraphsSelect?.value) || ARTICLE_CONFIG.DEFAULT_PARAGRAPHS;
+            contentHTML = truncateArticleHTML(contentHTML, maxParagraphs, sourcePost.url);
+        }
 
-        contentHTML = tempDiv.innerHTML;
+        contentHTML = formatContentHTML(contentHTML);
 
         const allEmojis = sourcePost.account.emojis || [];
 
-        /**
-         * Optimized emoji replacement using single regex
-         */
-        function replaceEmojis(content: string, emojis: typeof allEmojis): string {
-            const emojiMap = new Map<string, string>();
-
-            emojis.forEach(emoji => {
-                const dataUrl = imageMap[emoji.url];
-                let imgTag: string;
-
-                if (dataUrl && dataUrl !== 'failed') {
-                    imgTag = `<img src="${dataUrl}" alt=":${emoji.shortcode}:" class="custom-emoji inline-block w-5 h-5 align-text-bottom">`;
-                } else if (imageMap[emoji.url] === undefined) {
-                    imgTag = `<img src="${emoji.url}" alt=":${emoji.shortcode}:" class="custom-emoji inline-block w-5 h-5 align-text-bottom" onerror="this.onerror=null; this.outerHTML=':${emoji.shortcode}:'">`;
-                } else {
-                    imgTag = `:${emoji.shortcode}:`;
-                }
-
-                emojiMap.set(emoji.shortcode.toLowerCase(), imgTag);
-            });
-
-            return content.replace(/:([a-zA-Z0-9_]+):/g, (match, shortcode) => {
-                return emojiMap.get(shortcode.toLowerCase()) || match;
-            });
-        }
-
         contentHTML = replaceEmojis(contentHTML, allEmojis);
 
-        let displayNameHTML = sourcePost.account.displayName;
-        displayNameHTML = replaceEmojis(displayNameHTML, sourcePost.account.emojis || []);
+        // Display names are plain text; escape before swapping in emoji images
+        const displayNameHTML = replaceEmojis(escapeHtml(sourcePost.account.displayName), sourcePost.account.emojis || []);
+
+        // Render the "boosted by" header when showing a boost wrapper
+        const reblogHeaderEl = domCache.getElement(DOM_ELEMENT_IDS.REBLOG_HEADER) as HTMLDivElement;
+        const reblogHeaderTextEl = domCache.getElement(DOM_ELEMENT_IDS.REBLOG_HEADER_TEXT) as HTMLSpanElement;
+        if (reblogHeaderEl && reblogHeaderTextEl) {
+            if (booster) {
+                reblogHeaderTextEl.innerHTML = `${replaceEmojis(escapeHtml(booster.displayName), booster.emojis || [])} boosted`;
+                reblogHeaderEl.classList.remove('hidden');
+                reblogHeaderEl.classList.add('flex');
+            } else {
+                reblogHeaderTextEl.innerHTML = '';
+                reblogHeaderEl.classList.add('hidden');
+                reblogHeaderEl.classList.remove('flex');
+            }
+        }
 
         
 
@@ -521,26 +640,7 @@ document.addEventListener('DOMContentLoaded', () => {
 
         // --- 2. Render User and Content Information ---
         // Render the user's avatar, display name, and username FIRST (before content)
-        let avatarHTML = '';
-
-
-        // Use the real user avatar directly
-        if (sourcePost.account.avatar) {
-            
-
-            // If we have the avatar loaded from imageMap, use it
-            if (imageMap[sourcePost.account.avatar] && imageMap[sourcePost.account.avatar] !== 'failed') {
-                avatarHTML = `<img class="w-12 h-12 rounded-lg object-cover" alt="Avatar" src="${imageMap[sourcePost.account.avatar]}" onerror="this.src='${sourcePost.account.avatar}'">`;
-            }
-            // If avatar loading failed or not in imageMap yet, try direct URL
-            else {
-                
-                avatarHTML = `<img class="w-12 h-12 rounded-lg object-cover" alt="Avatar" src="${sourcePost.account.avatar}" onerror="this.style.display='none'">`;
-            }
-        } else {
-            
-            avatarHTML = `<div class="w-12 h-12 rounded-lg bg-gray-300 flex items-center justify-center text-gray-600 text-sm font-medium">?</div>`;
-        }
+        const avatarHTML = buildAvatarHTML(sourcePost.account.avatar);
 
         // Render avatar and user info first
         const avatarContainerEl = domCache.getElement(DOM_ELEMENT_IDS.AVATAR_CONTAINER) as HTMLDivElement;
@@ -556,13 +656,23 @@ document.addEventListener('DOMContentLoaded', () => {
         const instancePart = acct.includes('@') ? acct.split('@').slice(1).join('@') : fetchedInstance;
         usernameEl.textContent = visibility.instance && instancePart ? `@${usernamePart}@${instancePart}` : `@${usernamePart}`;
 
-    
+        // "Replying to @user" stands in for the parent when the thread isn't rendered
+        renderReplyContext(sourcePost, !!threadData?.ancestors.length);
+
+        // Community and title of link aggregator posts go above the body
+        renderTitleBlock(sourcePost);
+
         // Inject the processed content into the DOM AFTER user info is rendered
         (domCache.getElement(DOM_ELEMENT_IDS.CONTENT) as HTMLDivElement).innerHTML = contentHTML;
+        renderTranslationAttribution(translatedView.attribution);
 
         // --- 3. Render Media and Footer ---
         // Render media attachments like images and videos.
-        renderMedia(sourcePost.attachments, imageMap);
+        // Articles show their hero image in the title block, videos their thumbnail in the video card
+        renderMedia(sourcePost.article || sourcePost.video ? [] : sourcePost.attachments, imageMap);
+
+        // Like Mastodon, only show the link preview when the post has no media of its own
+        renderLinkCard(sourcePost.attachments.length === 0 ? sourcePost.card : undefined);
 
         // Render poll results if present
         // Cleanup old poll container (fixes persistence issue)
@@ -575,6 +685,15 @@ document.addEventListener('DOMContentLoaded', () => {
             renderPoll(sourcePost.poll);
         }
 
+        // Render the quoted post as a nested card
+        renderQuote(sourcePost.quote);
+
+        // Render surrounding thread posts when thread mode is active
+        renderThread(threadData);
+
+        // Render the before/after diff of each edit when edit history is requested
+        renderEditHistory(historyData);
+
         // Format the date and time for the footer display.
         const date = new Date(sourcePost.createdAt);
         const formattedDate = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
@@ -618,14 +737,21 @@ document.addEventListener('DOMContentLoaded', () => {
 
         // Check if there are any videos or GIFs in the attachments
         const hasVideosOrGifs = toDisplay.some(att => att.type === 'video' || att.type === 'gifv');
+        // Audio cards are stacked in a single column
+        const hasAudio = toDisplay.some(att => att.type === 'audio');
 
         // Only apply 3/2 aspect ratio for image-only layouts
-        if (toDisplay.length >= 2 && !hasVideosOrGifs) {
-            container.style.aspectRatio = '3 / 2';
-        }
-        container.style.gridTemplateColumns = toDisplay.length > 1 ? '1fr 1fr' : '1fr';
+        container.style.aspectRatio = toDisplay.length >= 2 && !hasVideosOrGifs && !hasAudio ? '3 / 2' : '';
+        container.style.gridTemplateColumns = toDisplay.length > 1 && !hasAudio ? '1fr 1fr' : '1fr';
 
         toDisplay.forEach((att, index) => {
+            if (att.type === 'audio') {
+                const audioWrapper = document.createElement('div');
+                audioWrapper.innerHTML = buildAudioCardHTML(att, imgMap);
+                container.appendChild(audioWrapper);
+                return;
+            }
+
             // For videos and GIFs, use preview URL; for images, use the main URL
             let url = att.url;
             let previewUrl = att.previewUrl;
@@ -671,10 +797,10 @@ document.addEventListener('DOMContentLoaded', () => {
             }
             else if (dataUrl && dataUrl !== 'failed') {
                 // Image is loaded, display it
-                wrapper.innerHTML = `<img alt="${att.description || `Attachment ${index + 1}`}" class="w-full h-full object-cover" src="${dataUrl}">`;
+                wrapper.innerHTML = `<img alt="${escapeHtml(att.description || `Attachment ${index + 1}`)}" class="w-full h-full object-cover" src="${escapeHtml(dataUrl)}">`;
             } else if (dataUrl === 'failed') {
                 // If image loading failed, try to use the original URL as fallback
-                wrapper.innerHTML = `<img alt="${att.description || `Attachment ${index + 1}`}" class="w-full h-full object-cover" src="${displayUrl}" onerror="this.parentElement.innerHTML = '<div class=\"w-full h-full bg-gray-200 flex items-center justify-center text-gray-500\"><svg class=\"w-8 h-8 text-gray-400\" fill=\"none\" stroke=\"currentColor\" viewBox=\"0 0 24 24\"><path stroke-linecap=\"round\" stroke-linejoin=\"round\" stroke-width=\"2\" d=\"M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z\"></path></svg></div>'">`;
+                wrapper.innerHTML = `<img alt="${escapeHtml(att.description || `Attachment ${index + 1}`)}" class="w-full h-full object-cover" src="${escapeHtml(displayUrl)}" onerror="this.parentElement.innerHTML = '<div class=\"w-full h-full bg-gray-200 flex items-center justify-center text-gray-500\"><svg class=\"w-8 h-8 text-gray-400\" fill=\"none\" stroke=\"currentColor\" viewBox=\"0 0 24 24\"><path stroke-linecap=\"round\" stroke-linejoin=\"round\" stroke-width=\"2\" d=\"M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z\"></path></svg></div>'">`;
             } else {
                 // Image is still loading, show shimmer animation
                 wrapper.innerHTML = `<div class="w-full h-full shimmer"></div>`;
@@ -696,6 +822,73 @@ document.addEventListener('DOMContentLoaded', () => {
         });
     }
 
+    /**
+     * Builds an audio card: cover art, title/artist, a pseudo-waveform and the duration.
+     * @param att - The audio attachment.
+     * @param imgMap - Streamed images, used for the cover art.
+     * @returns The card HTML.
+     */
+    function buildAudioCardHTML(att: FediverseAttachment, imgMap: Record<string, string>): string {
+        const coverSrc = att.previewUrl && imgMap[att.previewUrl] !== 'failed' ? (imgMap[att.previewUrl] || att.previewUrl) : '';
+        const fileName = decodeURIComponent(att.url.split('/').pop()?.split('?')[0] || '') || 'Audio';
+        const title = att.title || att.description || fileName;
+
+        const coverHTML = coverSrc
+            ? `<img alt="" class="w-20 h-20 rounded object-cover flex-shrink-0" src="${escapeHtml(coverSrc)}">`
+            : `<div class="w-20 h-20 rounded bg-gray-700 flex items-center justify-center flex-shrink-0">
+                    <svg class="w-10 h-10 text-gray-400" fill="currentColor" viewBox="0 0 20 20"><path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 5v9.114A4.369 4.369 0 005 14c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V7.82l8-1.6v5.894A4.37 4.37 0 0015 12c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V3z"/></svg>
+               </div>`;
+
+        const bars = buildWaveform(`${att.url}|${att.duration ?? ''}|${title}`, 48)
+            .map(height => `<div class="flex-1 rounded-sm bg-white bg-opacity-60" style="height: ${height}%"></div>`)
+            .join('');
+
+        return `
+            <div class="audio-card flex gap-3 p-3 bg-gray-800 text-white">
+                ${coverHTML}
+                <div class="min-w-0 flex-1 flex flex-col justify-between">
+                    <div class="min-w-0">
+                        <div class="font-bold whitespace-nowrap overflow-hidden text-ellipsis">${escapeHtml(title)}</div>
+                        ${att.artist ? `<div class="text-sm opacity-70 whitespace-nowrap overflow-hidden text-ellipsis">${escapeHtml(att.artist)}</div>` : ''}
+                    </div>
+                    <div class="flex items-center gap-2">
+                        <div class="flex-1 flex items-center gap-px h-8">${bars}</div>
+                        ${att.duration ? `<span class="text-xs opacity-70">${formatDuration(att.duration)}</span>` : ''}
+                    </div>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Derives a stable pseudo-waveform from the attachment metadata; no audio is downloaded,
+     * so the same file always gets the same shape.
+     * @param seed - Metadata string to derive the shape from.
+     * @param count - Number of bars.
+     * @returns Bar heights in percent.
+     */
+    function buildWaveform(seed: string, count: number): number[] {
+        // FNV-1a hash of the seed feeds a xorshift generator
+        let state = 0x811c9dc5;
+        for (let i = 0; i < seed.length; i++) {
+            state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+        }
+
+        const next = () => {
+            state ^= state << 13;
+            state ^= state >>> 17;
+            state ^= state << 5;
+            return (state >>> 0) / 0xffffffff;
+        };
+
+        // Smooth neighbouring values so the shape looks like audio rather than noise
+        let previous = next();
+        return Array.from({ length: count }, () => {
+            previous = previous * 0.5 + next() * 0.5;
+            return Math.round(20 + previous * 80);
+        });
+    }
+
     /**
      * Renders poll results into the preview card.
      * @param poll - The poll data from the post.
@@ -773,32 +966,722 @@ document.addEventListener('DOMContentLoaded', () => {
         }
     }
 
+    /**
+     * Prepares post HTML for display: unwraps Mastodon's truncated links and styles links/hashtags.
+     */
+    function formatContentHTML(html: string): string {
+        const tempDiv = document.createElement('div');
+        tempDiv.innerHTML = html;
+
+        // Fix Mastodon's link display: unwrap .invisible and .ellipsis spans to show full URLs
+        tempDiv.querySelectorAll('a').forEach(link => {
+            const allSpans = Array.from(link.querySelectorAll('span.invisible, span.ellipsis'));
+            allSpans.forEach(span => {
+                const textNode = document.createTextNode(span.textContent || '');
+                span.parentNode?.replaceChild(textNode, span);
+            });
+        });
+
+        // Keep links in their original format for natural appearance
+        tempDiv.querySelectorAll('a:not(.mention):not(.hashtag)').forEach(link => {
+            // Ensure links have proper styling but keep original format
+            link.classList.add('text-blue-600', 'hover:text-blue-800');
+        });
+
+        // Style hashtags in content to make them more visible
+        tempDiv.querySelectorAll('a.hashtag').forEach(hashtag => {
+            hashtag.classList.add('inline-block', 'text-blue-600', 'hover:text-blue-800', 'font-medium');
+        });
+
+        // Drop the "RE: <link>" fallback that servers add for clients without quote support
+        tempDiv.querySelectorAll('.quote-inline').forEach(el => el.remove());
+
+        return tempDiv.innerHTML;
+    }
+
+    /**
+     * Optimized emoji replacement using single regex
+     */
+    function replaceEmojis(content: string, emojis: FediverseEmoji[]): string {
+        const emojiMap = new Map<string, string>();
+
+        emojis.forEach(emoji => {
+            const dataUrl = imageMap[emoji.url];
+            let imgTag: string;
+
+            if (dataUrl && dataUrl !== 'failed') {
+                imgTag = `<img src="${escapeHtml(dataUrl)}" alt=":${emoji.shortcode}:" class="custom-emoji inline-block w-5 h-5 align-text-bottom">`;
+            } else if (imageMap[emoji.url] === undefined) {
+                // Fall back to the shortcode text (kept in alt) without interpolating remote data into script
+                imgTag = `<img src="${escapeHtml(emoji.url)}" alt=":${emoji.shortcode}:" class="custom-emoji inline-block w-5 h-5 align-text-bottom" onerror="this.onerror=null; this.replaceWith(this.alt)">`;
+            } else {
+                imgTag = `:${emoji.shortcode}:`;
+            }
+
+            emojiMap.set(emoji.shortcode.toLowerCase(), imgTag);
+        });
+
+        return content.replace(/:([a-zA-Z0-9_]+):/g, (match, shortcode) => {
+            return emojiMap.get(shortcode.toLowerCase()) || match;
+        });
+    }
+
+    /**
+     * Builds the avatar markup, preferring the streamed Base64 image over the remote URL.
+     */
+    function buildAvatarHTML(avatar?: string): string {
+        if (!avatar) {
+            return `<div class="w-12 h-12 rounded-lg bg-gray-300 flex items-center justify-center text-gray-600 text-sm font-medium">?</div>`;
+        }
+
+        // If we have the avatar loaded from imageMap, use it
+        if (imageMap[avatar] && imageMap[avatar] !== 'failed') {
+            return `<img class="w-12 h-12 rounded-lg object-cover" alt="Avatar" src="${escapeHtml(imageMap[avatar])}" data-fallback-src="${escapeHtml(avatar)}" onerror="this.onerror=null; this.src=this.dataset.fallbackSrc">`;
+        }
+
+        // If avatar loading failed or not in imageMap yet, try direct URL
+        return `<img class="w-12 h-12 rounded-lg object-cover" alt="Avatar" src="${escapeHtml(avatar)}" onerror="this.style.display='none'">`;
+    }
+
+    /**
+     * Renders thread ancestors above and the author's self-replies below the focus post.
+     * @param thread - The thread context returned by the API, or null outside thread mode.
+     */
+    function renderThread(thread: FediverseThread | null) {
+        const ancestorsEl = domCache.getElement(DOM_ELEMENT_IDS.THREAD_ANCESTORS) as HTMLDivElement;
+        const repliesEl = domCache.getElement(DOM_ELEMENT_IDS.THREAD_REPLIES) as HTMLDivElement;
+
+        if (ancestorsEl) {
+            ancestorsEl.innerHTML = '';
+            const ancestors = thread?.ancestors || [];
+            // Every ancestor connects downwards, the last one into the focus post
+            ancestors.forEach(post => ancestorsEl.appendChild(buildThreadItem(post, false, true)));
+            ancestorsEl.classList.toggle('hidden', ancestors.length === 0);
+        }
+
+        if (repliesEl) {
+            repliesEl.innerHTML = '';
+            const replies = thread?.selfReplies || [];
+            replies.forEach((post, index) => {
+                repliesEl.appendChild(buildThreadItem(post, true, index < replies.length - 1));
+            });
+            repliesEl.classList.toggle('hidden', replies.length === 0);
+        }
+    }
+
+    /**
+     * Builds a single thread entry with an avatar gutter and connector lines.
+     */
+    function buildThreadItem(post: FediversePost, lineAbove: boolean, lineBelow: boolean): HTMLElement {
+        const item = document.createElement('div');
+        item.className = 'thread-item flex';
+
+        const date = new Date(post.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+        const connector = 'w-0.5 bg-gray-400 bg-opacity-40';
+
+        item.innerHTML = `
+            <div class="flex flex-col items-center mr-4 flex-shrink-0 w-12">
+                ${lineAbove ? `<div class="${connector} h-3 mb-1"></div>` : ''}
+                <div class="w-12 h-12 flex-shrink-0">${buildAvatarHTML(post.account.avatar)}</div>
+                ${lineBelow ? `<div class="${connector} flex-1 mt-1 min-h-3"></div>` : ''}
+            </div>
+            <div class="min-w-0 flex-1 ${lineAbove ? 'pt-4' : ''} ${lineBelow ? 'pb-4' : ''}">
+                <div class="text-sm whitespace-nowrap overflow-hidden text-ellipsis">
+                    <span class="font-bold">${replaceEmojis(escapeHtml(post.account.displayName), post.account.emojis || [])}</span>
+                    <span class="opacity-70">@${escapeHtml(post.account.acct)} · ${date}</span>
+                </div>
+                <div class="text-base content-container mt-1">${replaceEmojis(formatContentHTML(post.content), post.account.emojis || [])}</div>
+                ${buildCompactMediaHTML(post.attachments)}
+            </div>
+        `;
+
+        return item;
+    }
+
+    /**
+     * Renders the "Replying to @user" line of a reply.
+     * @param post - The post being previewed.
+     * @param hasAncestors - Whether the thread above the post is rendered, which makes the line redundant.
+     */
+    function renderReplyContext(post: FediversePost, hasAncestors: boolean) {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.REPLY_CONTEXT) as HTMLDivElement;
+        const textEl = domCache.getElement(DOM_ELEMENT_IDS.REPLY_CONTEXT_TEXT) as HTMLSpanElement;
+        if (!container || !textEl) return;
+
+        if (!visibility.replyContext || !post.inReplyToAccount || hasAncestors) {
+            textEl.textContent = '';
+            container.classList.add('hidden');
+            container.classList.remove('flex');
+            return;
+        }
+
+        // Like account.acct, local accounts come without a host
+        const [username, ...hostParts] = post.inReplyToAccount.split('@');
+        const host = hostParts.join('@') || fetchedInstance;
+        textEl.textContent = `Replying to @${username}${visibility.instance && host ? `@${host}` : ''}`;
+        container.classList.remove('hidden');
+        container.classList.add('flex');
+    }
+
+    /**
+     * Renders the community line and title of Lemmy-style posts (or the commented post's title),
+     * or the hero image, title, byline and summary of long-form articles.
+     * @param post - The post being previewed.
+     */
+    function renderTitleBlock(post: FediversePost) {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.POST_TITLE_BLOCK) as HTMLDivElement;
+        if (!container) return;
+
+        if (!post.title && !post.parentTitle && !post.community && !post.article) {
+            container.innerHTML = '';
+            container.classList.add('hidden');
+            return;
+        }
+
+        if (post.article) {
+            const { summary, heroImage, readingTime } = post.article;
+            const heroSrc = heroImage && imageMap[heroImage] !== 'failed' ? (imageMap[heroImage] || heroImage) : '';
+            const date = new Date(post.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+            const author = post.account.displayName || post.account.username;
+
+            container.innerHTML = `
+                ${heroSrc ? `<div class="w-full rounded-lg overflow-hidden mb-3" style="aspect-ratio: 2 / 1"><img alt="" class="w-full h-full object-cover" src="${escapeHtml(heroSrc)}"></div>` : ''}
+                ${post.title ? `<div class="text-2xl font-bold leading-tight">${escapeHtml(post.title)}</div>` : ''}
+                <div class="text-sm opacity-70 mt-1">By ${escapeHtml(author)} · ${date} · ${readingTime} min read</div>
+                ${summary ? `<div class="italic opacity-80 mt-2">${escapeHtml(summary)}</div>` : ''}
+            `;
+            container.classList.remove('hidden');
+            return;
+        }
+
+        const metaParts: string[] = [];
+        if (post.community) {
+            metaParts.push(`<span class="font-bold">${escapeHtml(post.community.title)}</span> !${escapeHtml(post.community.name)}`);
+        }
+        if (post.votes) {
+            metaParts.push(`${post.votes.score} ${Math.abs(post.votes.score) === 1 ? 'point' : 'points'}`);
+        }
+
+        let linkHost = '';
+        if (post.linkUrl) {
+            try {
+                linkHost = new URL(post.linkUrl).hostname;
+            } catch {
+                linkHost = '';
+            }
+        }
+
+        container.innerHTML = `
+            ${metaParts.length > 0 ? `<div class="text-sm opacity-70 whitespace-nowrap overflow-hidden text-ellipsis">${metaParts.join(' · ')}</div>` : ''}
+            ${post.title ? `<div class="text-xl font-bold mt-1">${escapeHtml(post.title)}${linkHost ? ` <span class="text-sm font-normal opacity-70">(${escapeHtml(linkHost)})</span>` : ''}</div>` : ''}
+            ${post.parentTitle ? `<div class="text-sm mt-1 whitespace-nowrap overflow-hidden text-ellipsis"><span class="opacity-70">Comment on</span> <span class="font-bold">${escapeHtml(post.parentTitle)}</span></div>` : ''}
+        `;
+        container.classList.remove('hidden');
+    }
+
+    /**
+     * Cuts article HTML down to its first paragraphs and adds a "continue reading" line.
+     * @param html - The article body.
+     * @param maxParagraphs - How many top-level blocks to keep.
+     * @param url - The article URL, used for the host name in the hint.
+     * @returns The truncated HTML, or the original when it is already short enough.
+     */
+    function truncateArticleHTML(html: string, maxParagraphs: number, url: string): string {
+        const template = document.createElement('template');
+        template.innerHTML = html;
+
+        // Line breaks and whitespace between blocks don't count as paragraphs
+        const nodes = Array.from(template.content.childNodes);
+        const blocks = nodes.filter(node => node.nodeName !== 'BR' && node.textContent?.trim());
+        if (blocks.length <= maxParagraphs) return html;
+
+        const lastKept = nodes.indexOf(blocks[maxParagraphs - 1]);
+        nodes.slice(lastKept + 1).forEach(node => node.remove());
+
+        let host = '';
+        try {
+            host = new URL(url).hostname;
+        } catch {
+            host = '';
+        }
+
+        return `${template.innerHTML}<p class="opacity-70">Continue reading${host ? ` at ${escapeHtml(host)}` : ''} …</p>`;
+    }
+
+    /**
+     * Formats a duration in seconds as m:ss or h:mm:ss.
+     */
+    function formatDuration(seconds: number): string {
+        const h = Math.floor(seconds / 3600);
+        const m = Math.floor((seconds % 3600) / 60);
+        const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+        return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+    }
+
+    /**
+     * Builds the video card: thumbnail with duration badge, title, channel and view count.
+     * @param video - The video details of the post.
+     * @returns The card HTML.
+     */
+    function buildVideoCardHTML(video: FediverseVideo): string {
+        const thumbnailSrc = video.thumbnail && imageMap[video.thumbnail] !== 'failed' ? (imageMap[video.thumbnail] || video.thumbnail) : '';
+        const channel = video.channel;
+        const channelAvatar = channel?.avatar && imageMap[channel.avatar] !== 'failed' ? (imageMap[channel.avatar] || channel.avatar) : '';
+
+        const metaParts: string[] = [];
+        if (video.views !== undefined) {
+            metaParts.push(`${video.views.toLocaleString('en-US')} ${video.views === 1 ? 'view' : 'views'}`);
+        }
+        if (video.licence) {
+            metaParts.push(escapeHtml(video.licence));
+        }
+
+        return `
+            <div class="video-card rounded-lg overflow-hidden border border-gray-400 border-opacity-40">
+                <div class="relative w-full bg-gray-900" style="aspect-ratio: 16 / 9">
+                    ${thumbnailSrc ? `<img alt="" class="w-full h-full object-cover" src="${escapeHtml(thumbnailSrc)}">` : ''}
+                    ${video.duration ? `<span class="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-black bg-opacity-80 text-white text-xs font-medium">${formatDuration(video.duration)}</span>` : ''}
+                </div>
+                <div class="p-3">
+                    <div class="text-lg font-bold leading-snug line-clamp-2">${escapeHtml(video.title)}</div>
+                    <div class="flex items-center gap-2 mt-2 text-sm min-w-0">
+                        ${channelAvatar ? `<img alt="" class="w-6 h-6 rounded-full object-cover flex-shrink-0" src="${escapeHtml(channelAvatar)}">` : ''}
+                        ${channel ? `<span class="font-medium whitespace-nowrap overflow-hidden text-ellipsis">${escapeHtml(channel.displayName)}</span>` : ''}
+                        ${metaParts.length > 0 ? `<span class="opacity-70 whitespace-nowrap">${channel ? '· ' : ''}${metaParts.join(' · ')}</span>` : ''}
+                    </div>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Builds a five-star rating; a coloured row is clipped over a grey one so half stars work.
+     */
+    function buildStarRatingHTML(rating: number): string {
+        const percent = Math.max(0, Math.min(100, (rating / 5) * 100));
+        return `
+            <span class="relative inline-block leading-none text-base whitespace-nowrap" title="${rating} / 5">
+                <span class="opacity-30">★★★★★</span>
+                <span class="absolute inset-y-0 left-0 overflow-hidden text-amber-500" style="width: ${percent}%">★★★★★</span>
+            </span>
+        `;
+    }
+
+    /**
+     * Builds the BookWyrm book card (cover, title, authors, rating), preceded by the pull-quote of quotations.
+     * @param book - The book the status is about.
+     * @returns The card HTML.
+     */
+    function buildBookHTML(book: FediverseBook): string {
+        const coverSrc = book.cover && imageMap[book.cover] !== 'failed' ? (imageMap[book.cover] || book.cover) : '';
+
+        const quoteHTML = book.quote ? `
+            <blockquote class="border-l-4 border-gray-400 pl-4 mb-3">
+                <div class="text-lg italic leading-relaxed">${book.quote}</div>
+                <div class="text-sm opacity-70 mt-1">— ${escapeHtml(book.title)}${book.position ? `, ${escapeHtml(book.position)}` : ''}</div>
+            </blockquote>
+        ` : '';
+
+        return `
+            ${quoteHTML}
+            <div class="book-card flex gap-3 p-3 rounded-lg border border-gray-400 border-opacity-40">
+                ${coverSrc ? `<img alt="" class="w-14 h-20 rounded object-cover flex-shrink-0" src="${escapeHtml(coverSrc)}">` : ''}
+                <div class="min-w-0 flex-1">
+                    <div class="font-bold leading-snug line-clamp-2">${escapeHtml(book.title)}</div>
+                    ${book.subtitle ? `<div class="text-sm opacity-70 line-clamp-1">${escapeHtml(book.subtitle)}</div>` : ''}
+                    ${book.authors.length > 0 ? `<div class="text-sm mt-0.5">by ${escapeHtml(book.authors.join(', '))}</div>` : ''}
+                    ${book.rating ? `<div class="mt-1">${buildStarRatingHTML(book.rating)}</div>` : ''}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Formats an event's time range in the viewer's timezone; the date is repeated only when the event spans several days.
+     */
+    function formatEventTimeRange(start: Date, end: Date | null): string {
+        const dateOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' } as const;
+        const timeOptions = { hour: 'numeric', minute: '2-digit', hour12: true } as const;
+        const zone = start.toLocaleTimeString('en-US', { timeZoneName: 'short' }).split(' ').pop();
+
+        const startText = `${start.toLocaleDateString('en-US', dateOptions)} · ${start.toLocaleTimeString('en-US', timeOptions)}`;
+        if (!end || isNaN(end.getTime())) return `${startText} ${zone}`;
+
+        const endText = start.toDateString() === end.toDateString()
+            ? end.toLocaleTimeString('en-US', timeOptions)
+            : `${end.toLocaleDateString('en-US', dateOptions)} · ${end.toLocaleTimeString('en-US', timeOptions)}`;
+        return `${startText} – ${endText} ${zone}`;
+    }
+
+    /**
+     * Builds the event card: date badge, time range, location, online link and participant count.
+     * @param event - The event details of the post.
+     * @returns The card HTML.
+     */
+    function buildEventCardHTML(event: FediverseEvent): string {
+        const start = new Date(event.startTime);
+        if (isNaN(start.getTime())) return '';
+
+        const icon = (path: string) => `<svg class="w-4 h-4 mt-0.5 flex-shrink-0 opacity-70" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="${path}"></path></svg>`;
+        const rows: string[] = [
+            `${icon('M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z')}<span>${escapeHtml(formatEventTimeRange(start, event.endTime ? new Date(event.endTime) : null))}</span>`,
+        ];
+
+        if (event.location) {
+            const { name, address } = event.location;
+            rows.push(`${icon('M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z')}<span>${name ? `<span class="font-medium">${escapeHtml(name)}</span>` : ''}${name && address ? '<br>' : ''}${address ? `<span class="opacity-70">${escapeHtml(address)}</span>` : ''}</span>`);
+        }
+
+        if (event.onlineUrl) {
+            let host = event.onlineUrl;
+            try {
+                host = new URL(event.onlineUrl).hostname;
+            } catch {
+                host = event.onlineUrl;
+            }
+            rows.push(`${icon('M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9')}<span>Online · ${escapeHtml(host)}</span>`);
+        }
+
+        if (event.participants !== undefined) {
+            const capacity = event.maxParticipants ? ` / ${event.maxParticipants}` : '';
+            rows.push(`${icon('M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z')}<span>${event.participants}${capacity} going</span>`);
+        }
+
+        return `
+            <div class="event-card flex gap-3 p-3 rounded-lg border border-gray-400 border-opacity-40">
+                <div class="w-14 flex-shrink-0 self-start rounded-lg overflow-hidden text-center border border-gray-400 border-opacity-40">
+                    <div class="text-xs font-bold uppercase py-0.5 bg-red-500 text-white">${escapeHtml(start.toLocaleDateString('en-US', { month: 'short' }))}</div>
+                    <div class="text-2xl font-bold py-1">${start.getDate()}</div>
+                </div>
+                <div class="min-w-0 flex-1 space-y-1.5 text-sm">
+                    ${rows.map(row => `<div class="flex items-start gap-2">${row}</div>`).join('')}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Renders the link preview card; magazine templates get the large variant, others the compact one.
+     * @param card - The link card to display, if any.
+     */
+    function renderLinkCard(card?: FediverseLinkCard) {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.LINK_CARD_CONTAINER) as HTMLDivElement;
+        if (!container) return;
+
+        if (!card) {
+            container.innerHTML = '';
+            container.classList.add('hidden');
+            return;
+        }
+
+        const isLarge = templateManager.getCurrentTemplate().startsWith('magazine');
+        const imageSrc = card.image && imageMap[card.image] !== 'failed' ? (imageMap[card.image] || card.image) : '';
+        let provider = card.providerName;
+        if (!provider) {
+            try {
+                provider = new URL(card.url).hostname;
+            } catch {
+                provider = card.url;
+            }
+        }
+
+        const textHTML = `
+            <div class="min-w-0 flex-1 ${isLarge ? 'p-4' : 'p-3'}">
+                <div class="text-xs opacity-70 whitespace-nowrap overflow-hidden text-ellipsis">${escapeHtml(provider)}</div>
+                <div class="font-bold ${isLarge ? 'text-base' : 'text-sm'} line-clamp-2 mt-0.5">${escapeHtml(card.title)}</div>
+                ${card.description ? `<div class="text-sm opacity-70 ${isLarge ? 'line-clamp-3' : 'line-clamp-2'} mt-0.5">${escapeHtml(card.description)}</div>` : ''}
+            </div>
+        `;
+
+        if (isLarge) {
+            container.innerHTML = `
+                <div class="link-card link-card-large rounded-lg overflow-hidden border border-gray-400 border-opacity-40">
+                    ${imageSrc ? `<div class="w-full overflow-hidden" style="aspect-ratio: 1.91 / 1"><img alt="" class="w-full h-full object-cover" src="${escapeHtml(imageSrc)}"></div>` : ''}
+                    ${textHTML}
+                </div>
+            `;
+        } else {
+            container.innerHTML = `
+                <div class="link-card link-card-compact flex rounded-lg overflow-hidden border border-gray-400 border-opacity-40">
+                    ${imageSrc ? `<div class="w-24 h-24 flex-shrink-0 overflow-hidden"><img alt="" class="w-full h-full object-cover" src="${escapeHtml(imageSrc)}"></div>` : ''}
+                    ${textHTML}
+                </div>
+            `;
+        }
+        container.classList.remove('hidden');
+    }
+
+    /**
+     * Renders a quoted post as a bordered card inside the preview.
+     * @param quote - The quoted post, if any.
+     */
+    function renderQuote(quote?: FediversePost) {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.QUOTE_CONTAINER) as HTMLDivElement;
+        if (!container) return;
+
+        if (!quote) {
+            container.innerHTML = '';
+            container.classList.add('hidden');
+            return;
+        }
+
+        const emojis = quote.account.emojis || [];
+        const date = new Date(quote.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+        const contentHTML = quote.spoilerText
+            ? `<div class="italic opacity-70">${replaceEmojis(escapeHtml(quote.spoilerText), emojis)}</div>`
+            : `<div class="text-base content-container">${replaceEmojis(formatContentHTML(quote.content), emojis)}</div>`;
+
+        container.innerHTML = `
+            <div class="quote-card rounded-lg border border-gray-400 border-opacity-40 p-4">
+                <div class="flex items-center mb-2">
+                    <div class="w-12 h-12 mr-3 flex-shrink-0">${buildAvatarHTML(quote.account.avatar)}</div>
+                    <div class="min-w-0 flex-1 text-sm">
+                        <div class="font-bold whitespace-nowrap overflow-hidden text-ellipsis">${replaceEmojis(escapeHtml(quote.account.displayName), emojis)}</div>
+                        <div class="opacity-70 whitespace-nowrap overflow-hidden text-ellipsis">@${escapeHtml(quote.account.acct)} · ${date}</div>
+                    </div>
+                </div>
+                ${contentHTML}
+                ${quote.spoilerText ? '' : buildCompactMediaHTML(quote.attachments)}
+            </div>
+        `;
+        container.classList.remove('hidden');
+    }
+
+    /**
+     * Builds a compact image strip for thread entries and quoted posts.
+     */
+    function buildCompactMediaHTML(attachments: FediverseAttachment[]): string {
+        const images = attachments
+            .map(att => (att.type === 'image' ? att.url : att.previewUrl))
+            .filter((url): url is string => !!url)
+            .slice(0, 4);
+
+        if (images.length === 0) return '';
+
+        const cells = images.map(url => {
+            const src = imageMap[url] && imageMap[url] !== 'failed' ? imageMap[url] : url;
+            return `<div class="overflow-hidden aspect-video"><img alt="" class="w-full h-full object-cover" src="${escapeHtml(src)}"></div>`;
+        }).join('');
+
+        return `<div class="mt-2 grid gap-px rounded-lg overflow-hidden border border-brand-gray-200" style="grid-template-columns: ${images.length > 1 ? '1fr 1fr' : '1fr'}">${cells}</div>`;
+    }
+
     // --- Helper functions ---
     function renderFooter(post: FediversePost, vis: typeof visibility, time: string, date: string) {
         const bottomSection = domCache.getElement(DOM_ELEMENT_IDS.BOTTOM_SECTION) as HTMLDivElement;
         const timestampEl = domCache.getElement(DOM_ELEMENT_IDS.TIMESTAMP) as HTMLDivElement;
         const statsEl = domCache.getElement(DOM_ELEMENT_IDS.STATS) as HTMLDivElement;
 
+        // Edited posts are marked, so screenshots show that the content changed after publishing
+        const editedText = vis.edited && isEdited(post) ? `Edited ${formatDateTime(post.updatedAt!)}` : '';
+
         if (timestampEl) {
-            timestampEl.textContent = `${time} · ${date}`;
-            timestampEl.style.display = vis.timestamp ? 'block' : 'none';
+            timestampEl.textContent = [vis.timestamp ? `${time} · ${date}` : '', editedText].filter(Boolean).join(' · ');
+            timestampEl.style.display = vis.timestamp || editedText ? 'block' : 'none';
         }
 
         if (statsEl) {
             statsEl.style.display = vis.stats ? 'flex' : 'none';
         }
 
+        const hasMeta = renderMetaChips(post, vis);
+
         (domCache.getElement(DOM_ELEMENT_IDS.REPLIES) as HTMLSpanElement).textContent = post.repliesCount.toString();
         (domCache.getElement(DOM_ELEMENT_IDS.BOOSTS) as HTMLSpanElement).textContent = post.boostsCount.toString();
         (domCache.getElement(DOM_ELEMENT_IDS.FAVS) as HTMLSpanElement).textContent = post.favouritesCount.toString();
+        renderReactions(post.reactions, vis.stats);
 
-        const showBottom = vis.timestamp || vis.stats;
+        const showBottom = vis.timestamp || vis.stats || Boolean(editedText) || hasMeta;
         if (bottomSection) {
             bottomSection.style.display = showBottom ? 'block' : 'none';
             bottomSection.style.borderTopWidth = showBottom ? '1px' : '0';
             bottomSection.style.paddingTop = showBottom ? '1rem' : '0';
         }
     }
+
+    /**
+     * Translates the displayed post with the selected provider, then re-renders the card.
+     * Results for a post or settings that changed in the meantime are dropped.
+     */
+    async function updateTranslation() {
+        const requestId = ++translationRequest;
+        const hadTranslation = translationData !== null;
+        translationData = null;
+
+        const sourcePost = postData ? postData.reblog || postData : null;
+        const session = oauthClient.getSession();
+        const provider = createTranslationProvider({
+            provider: (translationProviderSelect?.value || 'none') as TranslationProviderId,
+            instance: fetchedInstance,
+            accessToken: session?.instance === fetchedInstance ? session.accessToken : undefined,
+            libreTranslateUrl: libreTranslateUrlInput?.value.trim(),
+            libreTranslateApiKey: libreTranslateKeyInput?.value.trim() || undefined,
+        });
+        const targetLanguage = translationTargetInput?.value.trim().toLowerCase();
+
+        // While images stream in, the card is rendered once they are done
+        const rerender = () => {
+            if (postData && !eventSource) renderPreview();
+        };
+        const setStatus = (message: string, className: string) => {
+            if (previewStatus && !eventSource) {
+                previewStatus.textContent = message;
+                previewStatus.className = className;
+            }
+        };
+
+        if (!sourcePost || !provider || !targetLanguage || translationModeSelect?.value === 'original') {
+            if (hadTranslation) rerender();
+            return;
+        }
+
+        const support = provider.supports(sourcePost);
+        if (!support.supported) {
+            setStatus(support.reason, 'text-sm text-yellow-600');
+            if (hadTranslation) rerender();
+            return;
+        }
+
+        setStatus('Translating...', 'text-sm text-blue-600');
+        try {
+            const result = await provider.translate(sourcePost, targetLanguage);
+            if (requestId !== translationRequest) return;
+            translationData = result;
+            setStatus('Translation loaded', 'text-sm text-green-600');
+        } catch (error) {
+            if (requestId !== translationRequest) return;
+            setStatus(`Translation failed: ${error instanceof Error ? error.message : 'unknown error'}`, 'text-sm text-yellow-600');
+        }
+        rerender();
+    }
+
+    /**
+     * Renders the "Translated from X by Y" line below the content.
+     */
+    function renderTranslationAttribution(attribution: string | null) {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.TRANSLATION_ATTRIBUTION) as HTMLDivElement;
+        if (!container) return;
+
+        container.textContent = attribution || '';
+        container.classList.toggle('hidden', !attribution);
+    }
+
+    /**
+     * Renders the footer chips for the post's audience, language and client app.
+     * @returns Whether any chip is shown.
+     */
+    function renderMetaChips(post: FediversePost, vis: typeof visibility): boolean {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.META) as HTMLDivElement;
+        if (!container) return false;
+
+        const chip = (content: string, title: string) =>
+            `<span class="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-gray-400 border-opacity-40" title="${escapeHtml(title)}">${content}</span>`;
+        const chips: string[] = [];
+
+        if (vis.postVisibility && (post.visibility || post.localOnly)) {
+            const { label, icon } = VISIBILITY_BADGES[post.visibility || 'public'];
+            const text = post.localOnly ? `${label} · Local only` : label;
+            chips.push(chip(`<svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="${icon}"/></svg><span>${escapeHtml(text)}</span>`, text));
+        }
+
+        if (vis.language && post.language) {
+            chips.push(chip(`<span class="font-medium tracking-wide">${escapeHtml(post.language.toUpperCase())}</span>`, `Language: ${post.language}`));
+        }
+
+        if (vis.application && post.application) {
+            chips.push(chip(`<span>via ${escapeHtml(post.application)}</span>`, `Posted via ${post.application}`));
+        }
+
+        container.innerHTML = chips.join('');
+        container.classList.toggle('hidden', chips.length === 0);
+        container.classList.toggle('flex', chips.length > 0);
+        return chips.length > 0;
+    }
+
+    /**
+     * Whether the post was changed after it was published.
+     */
+    function isEdited(post: FediversePost): boolean {
+        return Boolean(post.updatedAt) && new Date(post.updatedAt!).getTime() > new Date(post.createdAt).getTime();
+    }
+
+    function formatDateTime(isoDate: string): string {
+        return new Date(isoDate).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit', hour12: true });
+    }
+
+    /**
+     * Renders the edit history as word diffs between consecutive versions, latest edits only.
+     * @param history - The post's versions, oldest first, or null when edit history is off.
+     */
+    function renderEditHistory(history: FediverseRevision[] | null) {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.EDIT_HISTORY) as HTMLDivElement;
+        if (!container) return;
+
+        if (!history || history.length < 2) {
+            container.innerHTML = '';
+            container.classList.add('hidden');
+            return;
+        }
+
+        const revisionText = (revision: FediverseRevision) =>
+            [revision.spoilerText ? `CW: ${revision.spoilerText}` : '', htmlToText(revision.content)].filter(Boolean).join('\n');
+
+        const editCount = history.length - 1;
+        const edits = history.slice(1).map((revision, index) => ({ revision, previous: history[index] })).slice(-HISTORY_CONFIG.MAX_DIFFS);
+        const hiddenCount = editCount - edits.length;
+
+        const editsHTML = edits.map(({ revision, previous }) => {
+            const diffHTML = diffWords(revisionText(previous), revisionText(revision)).map(part => {
+                const text = escapeHtml(part.text);
+                if (part.type === 'removed') return `<del class="line-through opacity-70 bg-red-500 bg-opacity-25 rounded-sm">${text}</del>`;
+                if (part.type === 'added') return `<ins class="no-underline bg-green-500 bg-opacity-25 rounded-sm">${text}</ins>`;
+                return text;
+            }).join('');
+
+            return `
+                <div class="rounded-lg border border-gray-400 border-opacity-40 p-3">
+                    <div class="text-xs opacity-70 mb-1">Edited ${escapeHtml(formatDateTime(revision.createdAt))}</div>
+                    <div class="text-sm whitespace-pre-wrap break-words">${diffHTML}</div>
+                </div>
+            `;
+        }).join('');
+
+        container.innerHTML = `
+            <div class="text-sm font-bold mb-2">Edit history · ${editCount} ${editCount === 1 ? 'edit' : 'edits'}</div>
+            ${hiddenCount > 0 ? `<div class="text-xs opacity-70 mb-2">${hiddenCount} earlier ${hiddenCount === 1 ? 'edit' : 'edits'} not shown</div>` : ''}
+            <div class="space-y-3">${editsHTML}</div>
+        `;
+        container.classList.remove('hidden');
+    }
+
+    /**
+     * Renders the emoji reaction strip (Misskey family, Akkoma) below the stats.
+     * @param reactions - The post's reactions, most used first.
+     * @param show - Whether the stats are visible.
+     */
+    function renderReactions(reactions: FediverseReaction[] | undefined, show: boolean) {
+        const container = domCache.getElement(DOM_ELEMENT_IDS.REACTIONS) as HTMLDivElement;
+        if (!container) return;
+
+        if (!reactions?.length || !show) {
+            container.innerHTML = '';
+            container.classList.add('hidden');
+            container.classList.remove('flex');
+            return;
+        }
+
+        container.innerHTML = reactions.slice(0, REACTION_CONFIG.MAX_DISPLAYED).map(reaction => {
+            let emojiHTML = escapeHtml(reaction.name);
+            if (reaction.url && imageMap[reaction.url] !== 'failed') {
+                const src = imageMap[reaction.url] || reaction.url;
+                emojiHTML = `<img src="${escapeHtml(src)}" alt="${escapeHtml(reaction.name)}" class="custom-emoji inline-block w-5 h-5 align-text-bottom" onerror="this.onerror=null; this.replaceWith(this.alt)">`;
+            }
+            return `<span class="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-gray-400 border-opacity-40">${emojiHTML}<span>${reaction.count}</span></span>`;
+        }).join('');
+        container.classList.remove('hidden');
+        container.classList.add('flex');
+    }
+
     function setPreviewState(state: 'loading' | 'content' | 'error') {
         if (state === 'loading') {
             if (previewStatus) previewStatus.textContent = 'Loading...';
@@ -832,6 +1715,16 @@ document.addEventListener('DOMContentLoaded', () => {
         }
     }
     function setGenerateButtonState(isLoading: boolean) { if(generateBtn) { generateBtn.disabled = isLoading; generateBtn.textContent = isLoading ? 'Fetching...' : 'Generate Preview'; } }
+    function renderOAuthState() {
+        const session = oauthClient.getSession();
+        oauthLoggedOut?.classList.toggle('hidden', Boolean(session));
+        oauthLoggedOut?.classList.toggle('flex', !session);
+        oauthLoggedIn?.classList.toggle('hidden', !session);
+        oauthLoggedIn?.classList.toggle('flex', Boolean(session));
+        if (oauthAccount) oauthAccount.textContent = session ? (session.acct || session.instance) : '';
+        if (oauthLoginBtn) oauthLoginBtn.disabled = false;
+    }
+
     function showError(message: string, detail?: string) {
         const fullMessage = detail ? `${message}\n${detail}` : message;
         if(errorMessage) errorMessage.textContent = fullMessage;
@@ -898,7 +1791,7 @@ document.addEventListener('DOMContentLoaded', () => {
                     content.style.transform = 'scaleY(1)';
                 });
                 content.addEventListener('transitionend', function handler() {
-                    content.style.maxHeight = '500px'; // Allow content to grow beyond initial scrollHeight if needed
+                    content.style.maxHeight = '1700px'; // Allow content to grow beyond initial scrollHeight if needed
                     content.removeEventListener('transitionend', handler);
                 }, { once: true });
             }
@@ -0,0 +1,81 @@
+/**
+ * Normalizer for pasted post references
+ * Maps handles, `acct:` URIs, `ap://` / `web+ap://` links, app share links and web UI routes
+ * to the plain https post URL that parseFediverseUrl understands
+ */
+
+// Query parameters added by share sheets, newsletters and ad networks; no Fediverse post URL needs them
+const TRACKING_PARAMETERS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'igshid', 'igsh',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'ref', 'ref_src', 'ref_url', 'si', 'share', 'shared',
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+
+// `@user@domain`, `acct:user@domain` or `user@domain`, optionally followed by `/<post id>`
+const HANDLE_PATTERN = /^(?:acct:)?@?([\w.-]+)@([\w-]+(?:\.[\w-]+)+(?::\d+)?)(?:\/([\w-]+))?\/?$/i;
+
+// Path prefixes of web UI routes that mirror the plain post routes (Mastodon's /web and advanced /deck UI)
+const UI_ROUTE_PATTERN = /^\/(?:web|deck)(?=\/(?:@|statuses\/))/;
+
+/**
+ * Normalize a pasted post reference to an https URL
+ * Input that can't be interpreted is returned trimmed, so URL validation can report it
+ */
+export function normalizePostUrl(input: string): string {
+  // Links copied from chat apps and Markdown often keep their angle brackets or quotes
+  let value = input.trim().replace(/^[<"'](.*)[>"']$/s, '$1').trim();
+
+  const handle = value.match(HANDLE_PATTERN);
+  if (handle) {
+    const [, username, domain, postId] = handle;
+    return `https://${domain.toLowerCase()}/@${username}${postId ? `/${postId}` : ''}`;
+  }
+
+  // ap:// and web+ap:// links name the object by its https URL without the scheme
+  value = value.replace(/^(?:web\+)?ap:\/\//i, 'https://');
+
+  // Share sheets sometimes drop the scheme
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(value) && /^[\w-]+(?:\.[\w-]+)+(?::\d+)?\//.test(value)) {
+    value = `https://${value}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return value;
+  }
+
+  [...url.searchParams.keys()].forEach(key => {
+    const name = key.toLowerCase();
+    if (TRACKING_PARAMETERS.has(name) || TRACKING_PREFIXES.some(prefix => name.startsWith(prefix))) {
+      url.searchParams.delete(key);
+    }
+  });
+
+  // Fragments never reach the server, and text fragments (#:~:text=) come from share sheets
+  url.hash = '';
+  url.pathname = url.pathname.replace(UI_ROUTE_PATTERN, '');
+
+  return url.toString();
+}
+
+/**
+ * Whether a (normalized) URL points to an account rather than one of its posts
+ */
+export function isAccountUrl(url: string): boolean {
+  return /^https?:\/\/[^\/]+\/(?:@[^\/?#]+|users\/[^\/?#]+)\/?$/.test(url);
+}
+
+/**
+ * Extract the instance and local status ID from a bare `/statuses/<id>` route (what /web/statuses/<id> becomes)
+ * The post URL needs the author, which only the instance knows
+ */
+export function parseBareStatusUrl(url: string): { domain: string; id: string } | null {
+  const match = url.match(/^https?:\/\/([^\/]+)\/statuses\/(\d+)$/);
+  return match ? { domain: match[1], id: match[2] } : null;
+}
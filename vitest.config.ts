@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests live next to the modules they cover
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});